@@ -2,16 +2,63 @@
 
 import { Command } from 'commander';
 import prompts from 'prompts';
-import { searchAnime, AnimeResult, getAnimeDetail, getAnimeEpisodes, Episode, getEpisodeDetail, getVideoUrl } from '../services/api.js';
-import { playVideo } from '../services/player.js';
-import { downloadVideo } from '../services/download.js';
-import { saveWatchHistory, getWatchHistory, getLastWatchedAnime, clearWatchHistory, formatHistoryEntry, getContinueWatchingSuggestions } from '../utils/historyUtils.js';
-import { getConfig } from '../utils/config.js';
+import { AnimeResult, AnimeDetail, Episode, EpisodeDetail, StreamUrl, selectVideoFile, setCacheMode, getApiService, setActiveSource, getApiServiceNames, hasApiService } from '../services/api.js';
+import { playVideo, PlaybackOptions, PlaybackProgress } from '../services/player.js';
+import { getConfiguredPlayer } from '../services/playerAdapters.js';
+import { downloadVideo, getDownloadFilePath, getDownloadDir, isDownloadComplete, DownloadOptions, DownloadNaming } from '../services/download.js';
+import { MediaInfo } from '../services/mediaExport.js';
+import { getLibrary, findLibraryAnime, deleteLibraryEpisode, formatBytes, LibraryAnime, LibraryEpisode } from '../services/library.js';
+import { createDownloadJob, getQueueProgress, runDownloadQueue, DownloadJob, DownloadQueueSummary } from '../services/downloadQueue.js';
+import { checkForUpdates, getCheckedEpisodeCounts, getEpisodeCounts, NewEpisode } from '../services/updates.js';
+import { saveWatchHistory, getRecentActivity, getLastWatchedAnime, clearWatchHistory, formatHistoryEntry, getContinueWatchingSuggestions, getAnimeWatchHistory, getEpisodeWatchStatus, markEpisodesWatched, markEpisodesUnwatched, formatProgressBar, WatchHistoryEntry, WATCHED_PROGRESS_THRESHOLD } from '../utils/historyUtils.js';
+import { getConfig, getConfigKeys, getConfigPath, isConfigKey, readConfigFile, resetConfig, saveConfig, setConfigValue, validateConfigValue, AppConfig, ConfigKey } from '../utils/config.js';
 import { discordRPC } from '../services/discord.js';
+import { clearCache, getCacheStats } from '../utils/cacheUtils.js';
 import open from 'open';
+import { countdown } from '../utils/countdown.js';
+import { choosePreferredFansub, rememberFansub } from '../utils/fansubPreferences.js';
+import { getFollowedAnime, saveFollowedAnime, findFollowedAnime, followAnime, unfollowAnime } from '../utils/followStore.js';
+import { getWatchlist, getWatchlistEntry, updateWatchlistEntry, removeWatchlistEntry, sortWatchlist, suggestWatchlistStatus, parseWatchlistStatus, parseWatchlistScore, WATCHLIST_STATUSES, WATCHLIST_SORTS, WatchlistAnime, WatchlistChanges, WatchlistEntry, WatchlistSort, WatchlistStatus } from '../utils/watchlist.js';
+import { getTracker, getTrackerNames, isTrackerName, flushTrackerQueue, syncEpisodeProgress } from '../services/trackers.js';
+import { getTrackerAccounts, getTrackerQueue, saveTrackerAccount, TrackerAccount, TrackerName } from '../utils/trackerStore.js';
+import { runProcess, hasRunningProcesses, splitCommandLine, formatExitStatus, getExitCode } from '../utils/process.js';
 
 const program = new Command();
 
+/**
+ * Options chosen for the current session (CLI flags or interactive choices)
+ */
+const session: { quality?: string } = {};
+
+/**
+ * Get the quality to use for playback and downloads
+ */
+function getPreferredQuality(): string {
+  return session.quality || getConfig().defaultQuality;
+}
+
+/**
+ * Let the user pick a resolution from the ones available for an episode
+ */
+async function promptQuality(episodeDetail: EpisodeDetail): Promise<string | undefined> {
+  const resolutions = [...episodeDetail.episodeData.resolutions].sort((a, b) => b - a);
+  const currentFile = selectVideoFile(episodeDetail.episodeData.files, getPreferredQuality());
+  const initial = Math.max(0, resolutions.findIndex(r => r === currentFile?.resolution));
+  
+  const qualityResponse = await prompts({
+    type: 'select',
+    name: 'resolution',
+    message: 'Select a quality:',
+    choices: resolutions.map(resolution => ({
+      title: `${resolution}p`,
+      value: resolution
+    })),
+    initial
+  });
+  
+  return qualityResponse.resolution ? `${qualityResponse.resolution}p` : undefined;
+}
+
 /**
  * Display search results and handle user selection
  */
@@ -53,7 +100,7 @@ async function handleSearchResults(results: AnimeResult[]): Promise<void> {
 async function handleAnimeSelection(anime: AnimeResult): Promise<void> {
   console.log(`\nGetting details for: ${anime.english || anime.turkish || anime.romaji}`);
   
-  const animeDetail = await getAnimeDetail(anime.slug);
+  const animeDetail = await getApiService().getAnimeDetail(anime.slug);
   if (!animeDetail) {
     console.log('Could not get anime details.');
     return;
@@ -74,7 +121,7 @@ async function handleAnimeSelection(anime: AnimeResult): Promise<void> {
   }
   
   // Multiple seasons - show selection
-  const seasonChoices = animeDetail.seasons
+  const seasonChoices: prompts.Choice[] = animeDetail.seasons
     .filter(season => season.hasEpisode)
     .map(season => ({
       title: `${season.name} (${season.episode_count} episodes)`,
@@ -87,49 +134,200 @@ async function handleAnimeSelection(anime: AnimeResult): Promise<void> {
     return;
   }
   
-  const seasonResponse = await prompts({
-    type: 'select',
-    name: 'seasonNumber',
-    message: 'Select a season:',
-    choices: seasonChoices
-  });
-  
-  if (seasonResponse.seasonNumber) {
-    const selectedSeason = animeDetail.seasons.find(s => s.season_number === seasonResponse.seasonNumber);
-    await handleSeasonSelection(anime.slug, seasonResponse.seasonNumber, selectedSeason?.name || `Season ${seasonResponse.seasonNumber}`);
+  while (true) {
+    const seasonResponse = await prompts({
+      type: 'select',
+      name: 'seasonNumber',
+      message: 'Select a season:',
+      choices: [
+        ...seasonChoices,
+        { title: '─────────────────────────────────────', value: null, disabled: true },
+        { title: formatWatchlistAction(anime.slug), value: 'watchlist' }
+      ]
+    });
+    
+    if (seasonResponse.seasonNumber === 'watchlist') {
+      await promptWatchlistEntry(toWatchlistAnime(anime.slug, animeDetail));
+      continue;
+    }
+    
+    if (seasonResponse.seasonNumber) {
+      const selectedSeason = animeDetail.seasons.find(s => s.season_number === seasonResponse.seasonNumber);
+      await handleSeasonSelection(anime.slug, seasonResponse.seasonNumber, selectedSeason?.name || `Season ${seasonResponse.seasonNumber}`);
+    }
+    return;
   }
 }
 
+// Episodes per page of the episode picker; details are only fetched for the page on screen
+const EPISODE_PAGE_SIZE = 25;
+
 /**
  * Handle season selection and show episodes
  */
 async function handleSeasonSelection(slug: string, seasonNumber: number, seasonName: string): Promise<void> {
   console.log(`\nGetting episodes for ${seasonName}...`);
   
-  const episodes = await getAnimeEpisodes(slug, seasonNumber);
+  const episodes = await getApiService().getEpisodes(slug, seasonNumber);
   if (episodes.length === 0) {
     console.log('No episodes found for this season.');
     return;
   }
   
-  const episodeChoices = episodes.map(episode => ({
-    title: episode.title,
-    description: `Season ${episode.seasonNumber}, Episode ${episode.episodeNumber}`,
-    value: episode
-  }));
-  
-  const episodeResponse = await prompts({
-    type: 'select',
-    name: 'episode',
-    message: 'Select an episode:',
-    choices: episodeChoices
-  });
+  const animeDetail = await getApiService().getAnimeDetail(slug);
+  const pageCount = Math.ceil(episodes.length / EPISODE_PAGE_SIZE);
+  const filledPages = new Set<number>();
+  let page: number | null = null;
   
-  if (episodeResponse.episode) {
+  while (true) {
+    const history = animeDetail ? getAnimeWatchHistory(animeDetail.id) : [];
+    const historyFor = (episode: Episode) => history.find(entry =>
+      entry.seasonNumber === episode.seasonNumber && entry.episodeNumber === episode.episodeNumber
+    );
+    
+    // Start on the page of the first episode that hasn't been finished
+    if (page === null) {
+      const firstUnfinished = episodes.findIndex(episode => getEpisodeWatchStatus(historyFor(episode)) !== 'watched');
+      page = Math.floor(Math.max(0, firstUnfinished) / EPISODE_PAGE_SIZE);
+    }
+    
+    const pageStart = page * EPISODE_PAGE_SIZE;
+    if (!filledPages.has(page)) {
+      const filled = await getApiService().fillEpisodeDetails(slug, episodes.slice(pageStart, pageStart + EPISODE_PAGE_SIZE));
+      episodes.splice(pageStart, filled.length, ...filled);
+      filledPages.add(page);
+    }
+    const pageEpisodes = episodes.slice(pageStart, pageStart + EPISODE_PAGE_SIZE);
+    
+    const episodeChoices: prompts.Choice[] = pageEpisodes.map(episode => ({
+      title: formatEpisodeChoice(episode, historyFor(episode)),
+      description: formatEpisodeDescription(episode),
+      value: episode
+    }));
+    
+    if (page > 0) {
+      episodeChoices.unshift({ title: `⬆️ Episodes ${pageStart - EPISODE_PAGE_SIZE + 1}-${pageStart}`, value: 'previous-page' });
+    }
+    if (page < pageCount - 1) {
+      const nextStart = pageStart + EPISODE_PAGE_SIZE;
+      episodeChoices.push({ title: `⬇️ Episodes ${nextStart + 1}-${Math.min(nextStart + EPISODE_PAGE_SIZE, episodes.length)}`, value: 'next-page' });
+    }
+    
+    if (animeDetail) {
+      episodeChoices.push(
+        { title: '─────────────────────────────────────', value: null, disabled: true },
+        { title: '✅ Mark season as watched', value: 'mark-season' },
+        { title: '📝 Mark episodes watched/unwatched', value: 'mark-episodes' },
+        { title: formatWatchlistAction(slug), value: 'watchlist' }
+      );
+    }
+    
+    const pageUnfinished = pageEpisodes.findIndex(episode => getEpisodeWatchStatus(historyFor(episode)) !== 'watched');
+    
+    const episodeResponse = await prompts({
+      type: 'select',
+      name: 'episode',
+      message: pageCount > 1 ? `Select an episode (page ${page + 1} of ${pageCount}):` : 'Select an episode:',
+      choices: episodeChoices,
+      initial: Math.max(0, pageUnfinished) + (page > 0 ? 1 : 0)
+    });
+    
+    if (!episodeResponse.episode) return;
+    
+    if (episodeResponse.episode === 'previous-page' || episodeResponse.episode === 'next-page') {
+      page += episodeResponse.episode === 'next-page' ? 1 : -1;
+      continue;
+    }
+    
+    if (animeDetail && episodeResponse.episode === 'mark-season') {
+      // Episodes already watched keep their date and progress, so the history order stays put
+      const toMarkWatched = episodes.filter(episode => getEpisodeWatchStatus(historyFor(episode)) !== 'watched');
+      markEpisodesWatched(toMarkWatched.map(episode => createWatchedEntry(animeDetail, slug, episode, historyFor(episode))));
+      console.log(`✅ Marked ${toMarkWatched.length} episodes of ${seasonName} as watched`);
+      continue;
+    }
+    
+    if (animeDetail && episodeResponse.episode === 'watchlist') {
+      await promptWatchlistEntry(toWatchlistAnime(slug, animeDetail));
+      continue;
+    }
+    
+    if (animeDetail && episodeResponse.episode === 'mark-episodes') {
+      const markResponse = await prompts({
+        type: 'multiselect',
+        name: 'watched',
+        message: 'Select the episodes you have watched:',
+        choices: episodes.map(episode => ({
+          title: episode.title,
+          value: episode.episodeNumber,
+          selected: getEpisodeWatchStatus(historyFor(episode)) === 'watched'
+        })),
+        hint: '- Space to toggle, Enter to save'
+      });
+      if (!markResponse.watched) continue;
+      
+      const watched = new Set<number>(markResponse.watched);
+      const toMarkWatched = episodes.filter(episode => watched.has(episode.episodeNumber) && getEpisodeWatchStatus(historyFor(episode)) !== 'watched');
+      // Only unmark episodes that were watched and got deselected; in-progress ones keep their resume position
+      const toMarkUnwatched = episodes.filter(episode => !watched.has(episode.episodeNumber) && getEpisodeWatchStatus(historyFor(episode)) === 'watched');
+      
+      markEpisodesWatched(toMarkWatched.map(episode => createWatchedEntry(animeDetail, slug, episode, historyFor(episode))));
+      markEpisodesUnwatched(animeDetail.id, seasonNumber, toMarkUnwatched.map(episode => episode.episodeNumber));
+      console.log(`✅ Marked ${toMarkWatched.length} watched, ${toMarkUnwatched.length} unwatched`);
+      continue;
+    }
+    
     const selectedEpisode = episodeResponse.episode as Episode;
     console.log(`\nSelected: ${selectedEpisode.title}`);
     await handleEpisodeSelection(slug, selectedEpisode);
+    return;
+  }
+}
+
+/**
+ * Format an episode picker entry with its watched state, e.g. "✅ Title" or "⏯️ Title [███░░░░░░░] 34%"
+ */
+function formatEpisodeChoice(episode: Pick<Episode, 'title'>, entry: WatchHistoryEntry | undefined): string {
+  switch (getEpisodeWatchStatus(entry)) {
+    case 'watched':
+      return `✅ ${episode.title}`;
+    case 'in-progress':
+      return `⏯️ ${episode.title} ${formatProgressBar(entry!.progress)} ${entry!.progress}%`;
+    default:
+      return `⬜ ${episode.title}`;
+  }
+}
+
+/**
+ * Describe an episode in the picker, e.g. "Season 1, Episode 3 · Aired 1/5/2024"
+ */
+function formatEpisodeDescription(episode: Episode): string {
+  const parts = [`Season ${episode.seasonNumber}, Episode ${episode.episodeNumber}`];
+  if (episode.airDate) {
+    const airDate = new Date(episode.airDate);
+    parts.push(`Aired ${isNaN(airDate.getTime()) ? episode.airDate : airDate.toLocaleDateString()}`);
   }
+  if (episode.available === false) parts.push('Still processing');
+  return parts.join(' · ');
+}
+
+/**
+ * Build the history entry for an episode marked as watched from the menu
+ */
+function createWatchedEntry(animeDetail: AnimeDetail, slug: string, episode: Episode, existing?: WatchHistoryEntry): WatchHistoryEntry {
+  return {
+    animeId: animeDetail.id,
+    animeTitle: getAnimeTitle(animeDetail),
+    animeSlug: slug,
+    seasonNumber: episode.seasonNumber,
+    episodeNumber: episode.episodeNumber,
+    episodeTitle: episode.title,
+    fansubName: existing?.fansubName || 'Unknown',
+    watchedAt: new Date(),
+    progress: 100,
+    timePos: existing?.duration || 0,
+    duration: existing?.duration || 0
+  };
 }
 
 /**
@@ -138,7 +336,7 @@ async function handleSeasonSelection(slug: string, seasonNumber: number, seasonN
 async function handleEpisodeSelection(slug: string, episode: Episode, startTime?: number): Promise<void> {
   console.log(`\nGetting episode details...`);
   
-  const episodeDetail = await getEpisodeDetail(slug, episode.seasonNumber, episode.episodeNumber);
+  const episodeDetail = await getApiService().getEpisodeDetail(slug, episode.seasonNumber, episode.episodeNumber);
   if (!episodeDetail) {
     console.log('Could not get episode details.');
     return;
@@ -159,31 +357,64 @@ async function handleEpisodeSelection(slug: string, episode: Episode, startTime?
     console.log(`${index + 1}. ${fansub.name} - ${fansub.contributors}`);
   });
   
-  // Show available fansubs
-  if (episodeDetail.fansubs.length > 1) {
-    const fansubChoices = episodeDetail.fansubs.map(fansub => ({
-      title: fansub.name,
-      description: `Contributors: ${fansub.contributors}`,
-      value: fansub.id
-    }));
-    
-    const fansubResponse = await prompts({
-      type: 'select',
-      name: 'fansubId',
-      message: 'Select a fansub:',
-      choices: fansubChoices
-    });
-    
-    if (fansubResponse.fansubId) {
-      await handleVideoPlayback(slug, episode, fansubResponse.fansubId, startTime);
-    }
-  } else if (episodeDetail.fansubs.length === 1) {
-    // Only one fansub available
-    console.log(`\nUsing fansub: ${episodeDetail.fansubs[0].name}`);
-    await handleVideoPlayback(slug, episode, episodeDetail.fansubs[0].id, startTime);
-  } else {
+  const fansubId = await selectFansub(slug, episodeDetail);
+  if (fansubId) {
+    await handleVideoPlayback(slug, episode, fansubId, startTime);
+  }
+}
+
+/**
+ * Pick the fansub for an episode: the one remembered for this anime or the highest ranked
+ * preferredFansubs entry that released it, else `fallbackId`, else ask
+ */
+async function selectFansub(slug: string, episodeDetail: EpisodeDetail, fallbackId?: string): Promise<string | undefined> {
+  const { fansub, wanted } = choosePreferredFansub(slug, episodeDetail.fansubs);
+  if (wanted) {
+    console.log(`\n⚠️ ${wanted} hasn't released this episode yet${fansub ? `, using ${fansub.name}` : ''}`);
+  }
+  
+  if (fansub) {
+    console.log(`\nUsing fansub: ${fansub.name}`);
+    return fansub.id;
+  }
+  
+  const fallback = episodeDetail.fansubs.find(f => f.id === fallbackId);
+  if (fallback) return fallback.id;
+  
+  return promptFansub(slug, episodeDetail);
+}
+
+/**
+ * Let the user pick one of an episode's fansubs and remember the choice for the anime;
+ * a single fansub is used without asking
+ */
+async function promptFansub(slug: string, episodeDetail: EpisodeDetail): Promise<string | undefined> {
+  if (episodeDetail.fansubs.length === 0) {
     console.log('\n❌ No fansubs available for this episode.');
+    return undefined;
+  }
+  
+  if (episodeDetail.fansubs.length === 1) {
+    console.log(`\nUsing fansub: ${episodeDetail.fansubs[0].name}`);
+    return episodeDetail.fansubs[0].id;
   }
+  
+  const fansubChoices = episodeDetail.fansubs.map(fansub => ({
+    title: fansub.name,
+    description: `Contributors: ${fansub.contributors}`,
+    value: fansub.id
+  }));
+  
+  const fansubResponse = await prompts({
+    type: 'select',
+    name: 'fansubId',
+    message: 'Select a fansub:',
+    choices: fansubChoices
+  });
+  
+  const chosen = episodeDetail.fansubs.find(f => f.id === fansubResponse.fansubId);
+  if (chosen) rememberFansub(slug, chosen);
+  return chosen?.id;
 }
 
 /**
@@ -192,85 +423,75 @@ async function handleEpisodeSelection(slug: string, episode: Episode, startTime?
 async function handleVideoPlayback(slug: string, episode: Episode, fansubId: string, startTime?: number): Promise<void> {
   console.log(`\nGetting video URL...`);
   
-  const videoUrl = await getVideoUrl(slug, episode.seasonNumber, episode.episodeNumber, fansubId);
-  if (!videoUrl) {
+  const videoStream = await getApiService().getVideoStream(slug, episode.seasonNumber, episode.episodeNumber, fansubId, session.quality);
+  
+  // Get the fansub's own episode details for quality choices and history tracking
+  const episodeDetail = await getApiService().getEpisodeDetail(slug, episode.seasonNumber, episode.episodeNumber, fansubId);
+  
+  if (!videoStream) {
+    // The requested quality may be missing for this fansub - let the user pick one it has
+    if (session.quality && episodeDetail && episodeDetail.episodeData.files.length > 0) {
+      const quality = await promptQuality(episodeDetail);
+      if (quality) {
+        session.quality = quality;
+        await handleVideoPlayback(slug, episode, fansubId, startTime);
+        return;
+      }
+    }
     console.log('Could not get video URL.');
     return;
   }
   
+  const videoUrl = videoStream.url;
   console.log(`Video URL: ${videoUrl}`);
   
-  // Get anime details for history tracking
-  const animeDetail = await getAnimeDetail(slug);
-  const episodeDetail = await getEpisodeDetail(slug, episode.seasonNumber, episode.episodeNumber);
-  const fansub = episodeDetail?.fansubs.find(f => f.id === fansubId);
+  const actionChoices = [
+    { title: `▶️  Play with ${getConfiguredPlayer().displayName}`, value: 'play' },
+    { title: '🍿 Binge watch from here', value: 'binge' },
+    { title: '🔗 Copy URL to clipboard', value: 'copy' },
+    { title: '⬇️  Download episode', value: 'download' },
+    { title: '🌐 Open in browser', value: 'browser' }
+  ];
+  
+  // Let the user override the remembered or preferred fansub
+  if (episodeDetail && episodeDetail.fansubs.length > 1) {
+    const currentFansub = episodeDetail.fansubs.find(f => f.id === fansubId);
+    actionChoices.push({ title: `🔁 Change fansub (${currentFansub?.name || 'Unknown'})`, value: 'fansub' });
+  }
+  
+  // Offer a quality picker when the episode has more than one resolution
+  if (episodeDetail && episodeDetail.episodeData.resolutions.length > 1) {
+    actionChoices.push({ title: `🎚️  Change quality (${getPreferredQuality()})`, value: 'quality' });
+  }
   
   const playChoice = await prompts({
     type: 'select',
     name: 'action',
     message: 'What would you like to do?',
-    choices: [
-      { title: '▶️  Play with MPV', value: 'play' },
-      { title: '🔗 Copy URL to clipboard', value: 'copy' },
-      { title: '⬇️  Download episode', value: 'download' },
-      { title: '🌐 Open in browser', value: 'browser' }
-    ]
+    choices: actionChoices
   });
   
   switch (playChoice.action) {
-    case 'play':
-      console.log('\nStarting video playback...');
-      
-      // Create play options with episode info for live history tracking
-      const playOptions: any = {};
-      if (startTime) playOptions.startTime = startTime;
-      
-      if (animeDetail) {
-        playOptions.animeId = animeDetail.id;
-        playOptions.animeTitle = animeDetail.english || animeDetail.turkish || animeDetail.romaji;
-        playOptions.animeSlug = slug;
-        playOptions.seasonNumber = episode.seasonNumber;
-        playOptions.episodeNumber = episode.episodeNumber;
-        playOptions.episodeTitle = episode.title;
-        playOptions.fansubName = fansub?.name || 'Unknown';
-        
-        // Discord RPC ile izleme durumunu güncelle - eski projeye benzer şekilde daha fazla bilgi ile
-        const animeTitle = animeDetail.english || animeDetail.turkish || animeDetail.romaji;
-        const episodeInfo = `S${episode.seasonNumber}E${episode.episodeNumber}`;
-        const episodeUrl = `anime/${slug}/${episode.seasonNumber}/${episode.episodeNumber}`;
-        await discordRPC.updateWatchingAnime(animeTitle, episodeInfo, episodeUrl, animeDetail.pictures?.avatar);
-      }
-      
-      // Save initial history entry
-      await saveToHistory(slug, episode, fansubId, 0);
-      
-      // Play video with live history tracking
-      const playbackResult = await playVideo(videoUrl, playOptions);
-      
-      // Final history update
-      await saveToHistory(slug, episode, fansubId, playbackResult.progress, playbackResult.timePos, playbackResult.duration);
-      
-      // Get user configuration to check if auto-play is enabled
-      const config = getConfig();
-      
-      // Check if auto-play is enabled, episode was watched to completion (> 85%) and there's a next episode
-      if (config.autoPlayNextEpisode && playbackResult.progress >= 85 && episodeDetail?.episodeData.hasNextEpisode) {
-        console.log('\n✅ Episode completed! Moving to next episode...');
-        
-        // Get the next episode and play it automatically
-        const nextEpisodeNumber = episode.episodeNumber + 1;
-        const episodes = await getAnimeEpisodes(slug, episode.seasonNumber);
-        const nextEpisode = episodes.find(e => e.episodeNumber === nextEpisodeNumber);
-        
-        if (nextEpisode) {
-          console.log(`\n🔄 Automatically playing next episode: ${nextEpisode.title}`);
-          // Play the next episode with the same fansub
-          await handleEpisodeSelection(slug, nextEpisode);
-        } else {
-          console.log('\n❌ Could not find next episode.');
-        }
+    case 'fansub': {
+      const newFansubId = episodeDetail ? await promptFansub(slug, episodeDetail) : undefined;
+      await handleVideoPlayback(slug, episode, newFansubId || fansubId, startTime);
+      break;
+    }
+    case 'quality':
+      if (episodeDetail) {
+        const quality = await promptQuality(episodeDetail);
+        if (quality) session.quality = quality;
       }
+      await handleVideoPlayback(slug, episode, fansubId, startTime);
+      break;
+    case 'play':
+      await playEpisodes(slug, episode, fansubId, videoStream, startTime, getConfig().autoPlayNextEpisode ? createBingeSession() : null);
+      break;
+    case 'binge': {
+      const binge = await promptBingeSession();
+      if (binge) await playEpisodes(slug, episode, fansubId, videoStream, startTime, binge);
       break;
+    }
     case 'copy':
       console.log(`\n📋 Video URL: ${videoUrl}`);
       console.log('Copy the URL above to play in your preferred player.');
@@ -278,25 +499,13 @@ async function handleVideoPlayback(slug: string, episode: Episode, fansubId: str
       await saveToHistory(slug, episode, fansubId, 100, 0, 0);
       break;
     case 'download':
-      await handleDownload(slug, episode, videoUrl);
+      await handleDownload(slug, episode, videoStream);
       break;
     case 'browser':
       console.log('\n🌐 Opening in browser...');
       console.log(`URL: ${videoUrl}`);
       try {
-        const { exec } = await import('child_process');
-        const platform = process.platform;
-        
-        let command = '';
-        if (platform === 'darwin') {
-          command = `open "${videoUrl}"`;
-        } else if (platform === 'win32') {
-          command = `start "${videoUrl}"`;
-        } else {
-          command = `xdg-open "${videoUrl}"`;
-        }
-        
-        exec(command);
+        await open(videoUrl);
         console.log('✅ Opened in default browser');
         process.exit(0);
       } catch (error) {
@@ -307,19 +516,273 @@ async function handleVideoPlayback(slug: string, episode: Episode, fansubId: str
   }
 }
 
+/**
+ * Play one episode in the configured player and record it in the watch history
+ */
+async function playEpisode(slug: string, episode: Episode, fansubId: string, videoStream: StreamUrl, startTime?: number): Promise<PlaybackProgress> {
+  console.log('\nStarting video playback...');
+  
+  const animeDetail = await getApiService().getAnimeDetail(slug);
+  const episodeDetail = await getApiService().getEpisodeDetail(slug, episode.seasonNumber, episode.episodeNumber, fansubId);
+  const fansub = episodeDetail?.fansubs.find(f => f.id === fansubId);
+  
+  // Create play options with episode info for live history tracking
+  const playOptions: PlaybackOptions = { startTime, quality: getPreferredQuality() };
+  
+  if (animeDetail) {
+    const animeTitle = getAnimeTitle(animeDetail);
+    Object.assign(playOptions, {
+      animeId: animeDetail.id,
+      animeTitle,
+      animeSlug: slug,
+      seasonNumber: episode.seasonNumber,
+      episodeNumber: episode.episodeNumber,
+      episodeTitle: episode.title,
+      fansubName: fansub?.name || 'Unknown'
+    });
+    
+    // Discord RPC ile izleme durumunu güncelle - eski projeye benzer şekilde daha fazla bilgi ile
+    const episodeInfo = `S${episode.seasonNumber}E${episode.episodeNumber}`;
+    const episodeUrl = `anime/${slug}/${episode.seasonNumber}/${episode.episodeNumber}`;
+    await discordRPC.updateWatchingAnime(animeTitle, episodeInfo, episodeUrl, animeDetail.pictures?.avatar);
+  }
+  
+  // Save initial history entry, keeping the saved position of a resumed episode until the first checkpoint
+  const previous = animeDetail && getAnimeWatchHistory(animeDetail.id)
+    .find(entry => entry.seasonNumber === episode.seasonNumber && entry.episodeNumber === episode.episodeNumber);
+  await saveToHistory(slug, episode, fansubId, previous?.progress ?? 0, previous?.timePos ?? 0, previous?.duration ?? 0);
+  
+  // Play video with live history tracking
+  const playbackResult = await playVideo([videoStream], playOptions);
+  
+  // Final history update
+  await saveToHistory(slug, episode, fansubId, playbackResult.progress, playbackResult.timePos, playbackResult.duration);
+  await updateTrackers(slug, episode, playbackResult.progress);
+  
+  return playbackResult;
+}
+
+/**
+ * Get the MyAnimeList id of an episode's season.
+ * MAL lists each season separately; the anime-level id only matches the first season's numbering.
+ */
+function getSeasonMalId(episodeDetail: EpisodeDetail, seasonNumber: number): number | undefined {
+  return episodeDetail.episodeData.season?.mal_id || (seasonNumber === 1 ? episodeDetail.animeMeta.malID : undefined) || undefined;
+}
+
+/**
+ * Send a finished episode to the connected AniList/MyAnimeList accounts
+ */
+async function updateTrackers(slug: string, episode: Episode, progress: number): Promise<void> {
+  if (progress < WATCHED_PROGRESS_THRESHOLD) return;
+  
+  const episodeDetail = await getApiService().getEpisodeDetail(slug, episode.seasonNumber, episode.episodeNumber);
+  if (!episodeDetail) return;
+  
+  const malId = getSeasonMalId(episodeDetail, episode.seasonNumber);
+  if (!malId) return;
+  
+  const { animeMeta } = episodeDetail;
+  await syncEpisodeProgress({
+    malId,
+    episodeNumber: episode.episodeNumber,
+    title: animeMeta.english || animeMeta.turkish || animeMeta.romaji || slug
+  });
+}
+
+/**
+ * Binge watching state: episodes keep playing with the same fansub and quality until a limit is hit
+ */
+interface BingeSession {
+  startedAt: number;
+  episodesPlayed: number;
+  maxEpisodes: number; // 0 = no limit
+  maxMinutes: number; // 0 = no limit
+  countdownSeconds: number;
+}
+
+/**
+ * Start a binge session with the limits from the config
+ */
+function createBingeSession(maxEpisodes?: number, maxMinutes?: number): BingeSession {
+  const config = getConfig();
+  return {
+    startedAt: Date.now(),
+    episodesPlayed: 0,
+    maxEpisodes: maxEpisodes ?? config.bingeMaxEpisodes,
+    maxMinutes: maxMinutes ?? config.bingeMaxMinutes,
+    countdownSeconds: config.bingeCountdownSeconds
+  };
+}
+
+/**
+ * Ask for binge limits, defaulting to the config values
+ */
+async function promptBingeSession(): Promise<BingeSession | null> {
+  const config = getConfig();
+  const limits = await prompts([
+    {
+      type: 'number',
+      name: 'maxEpisodes',
+      message: 'Stop after how many episodes? (0 = no limit)',
+      initial: config.bingeMaxEpisodes,
+      min: 0
+    },
+    {
+      type: 'number',
+      name: 'maxMinutes',
+      message: 'Stop after how many minutes? (0 = no limit)',
+      initial: config.bingeMaxMinutes,
+      min: 0
+    }
+  ]);
+  
+  if (limits.maxEpisodes === undefined || limits.maxMinutes === undefined) return null;
+  return createBingeSession(limits.maxEpisodes, limits.maxMinutes);
+}
+
+/**
+ * Get why a binge session should stop, or null to keep going
+ */
+function getBingeStopReason(binge: BingeSession): string | null {
+  if (binge.maxEpisodes > 0 && binge.episodesPlayed >= binge.maxEpisodes) {
+    return `watched ${binge.episodesPlayed} episode${binge.episodesPlayed === 1 ? '' : 's'}`;
+  }
+  const elapsedMinutes = (Date.now() - binge.startedAt) / 60000;
+  if (binge.maxMinutes > 0 && elapsedMinutes >= binge.maxMinutes) {
+    return `reached the ${binge.maxMinutes} minute limit`;
+  }
+  return null;
+}
+
+/**
+ * Play an episode, then - while binge watching - keep playing the following episodes across
+ * seasons with the same fansub and quality, with a skippable countdown in between
+ */
+async function playEpisodes(slug: string, episode: Episode, fansubId: string, videoStream: StreamUrl, startTime: number | undefined, binge: BingeSession | null): Promise<void> {
+  let current = { episode, fansubId, videoStream, startTime };
+  
+  while (true) {
+    const playbackResult = await playEpisode(slug, current.episode, current.fansubId, current.videoStream, current.startTime);
+    if (!binge) return;
+    
+    binge.episodesPlayed++;
+    if (playbackResult.progress < WATCHED_PROGRESS_THRESHOLD) return;
+    
+    const stopReason = getBingeStopReason(binge);
+    if (stopReason) {
+      console.log(`\n⏹️ Binge watching stopped: ${stopReason}`);
+      return;
+    }
+    
+    const { seasonNumber, episodeNumber } = current.episode;
+    const nextEpisode = await getApiService().getNextEpisode(slug, seasonNumber, episodeNumber);
+    if (!nextEpisode) {
+      console.log('\n🎉 You are all caught up - no more episodes.');
+      return;
+    }
+    if (nextEpisode.available === false) {
+      console.log(`\n⏳ S${nextEpisode.seasonNumber}E${nextEpisode.episodeNumber} is still processing, try again later.`);
+      return;
+    }
+    
+    console.log('\n✅ Episode completed!');
+    if (nextEpisode.seasonNumber !== seasonNumber) {
+      console.log(`📺 Moving on to Season ${nextEpisode.seasonNumber}`);
+    }
+    
+    const label = `▶️ Next: S${nextEpisode.seasonNumber}E${nextEpisode.episodeNumber} - ${nextEpisode.title}`;
+    if (await countdown(binge.countdownSeconds, label) === 'cancel') {
+      console.log('⏹️ Binge watching stopped');
+      return;
+    }
+    
+    // Use the preferred fansub, else stay with the current one; ask only if neither released the next episode
+    const nextDetail = await getApiService().getEpisodeDetail(slug, nextEpisode.seasonNumber, nextEpisode.episodeNumber);
+    if (!nextDetail) return;
+    
+    const nextFansubId = await selectFansub(slug, nextDetail, current.fansubId);
+    if (!nextFansubId) return;
+    
+    const nextVideoStream = await getApiService().getVideoStream(slug, nextEpisode.seasonNumber, nextEpisode.episodeNumber, nextFansubId, session.quality);
+    if (!nextVideoStream) {
+      console.log('Could not get video URL.');
+      return;
+    }
+    
+    current = { episode: nextEpisode, fansubId: nextFansubId, videoStream: nextVideoStream, startTime: undefined };
+  }
+}
+
+/**
+ * Get a short label for an episode, e.g. "S1E3 - Title"
+ */
+function formatEpisodeName(episode: Pick<Episode, 'seasonNumber' | 'episodeNumber' | 'title'>): string {
+  return `S${episode.seasonNumber}E${episode.episodeNumber} - ${episode.title}`;
+}
+
+/**
+ * Get the values an episode's download is named after (see the download templates)
+ */
+function createDownloadNaming(slug: string, animeDetail: AnimeDetail | null, episode: Pick<Episode, 'seasonNumber' | 'episodeNumber' | 'title'>, videoStream?: StreamUrl): DownloadNaming {
+  return {
+    animeTitle: animeDetail ? getAnimeTitle(animeDetail) : slug,
+    animeRomaji: animeDetail?.romaji,
+    animeSlug: slug,
+    seasonNumber: episode.seasonNumber,
+    episodeNumber: episode.episodeNumber,
+    episodeTitle: episode.title,
+    fansubName: videoStream?.fansubName,
+    quality: videoStream?.quality
+  };
+}
+
+/**
+ * Describe a download for its metadata sidecar, which the offline library reads
+ */
+function createDownloadMetadata(slug: string, animeDetail: AnimeDetail, episode: Pick<Episode, 'seasonNumber' | 'episodeNumber' | 'title'>, videoStream: StreamUrl, episodeDetail: EpisodeDetail | null): DownloadOptions['metadata'] {
+  return {
+    source: getApiService().name,
+    animeId: animeDetail.id,
+    animeSlug: slug,
+    animeTitle: getAnimeTitle(animeDetail),
+    seasonNumber: episode.seasonNumber,
+    episodeNumber: episode.episodeNumber,
+    episodeTitle: episode.title,
+    fansubId: videoStream.fansubId || episodeDetail?.episodeData.fansub.id || '',
+    fansubName: videoStream.fansubName || episodeDetail?.episodeData.fansub.name || 'Unknown',
+    quality: videoStream.quality,
+    malId: episodeDetail ? getSeasonMalId(episodeDetail, episode.seasonNumber) : undefined
+  };
+}
+
+/**
+ * Collect what the .nfo files and artwork of a download are made from
+ */
+function createMediaInfo(animeDetail: AnimeDetail, episodeDetail: EpisodeDetail | null, videoStream: StreamUrl): MediaInfo {
+  return {
+    anime: animeDetail,
+    episode: episodeDetail?.episodeData || null,
+    fansubName: videoStream.fansubName,
+    malId: episodeDetail?.animeMeta.malID || undefined
+  };
+}
+
 /**
  * Handle episode download
  */
-async function handleDownload(slug: string, episode: Episode, videoUrl: string): Promise<void> {
+async function handleDownload(slug: string, episode: Episode, videoStream: StreamUrl): Promise<void> {
   console.log('\n⬇️ Starting download...');
   
   // Get anime details for proper naming
-  const animeDetail = await getAnimeDetail(slug);
-  const animeTitle = animeDetail?.english || animeDetail?.turkish || animeDetail?.romaji || slug;
+  const animeDetail = await getApiService().getAnimeDetail(slug);
+  const episodeDetail = await getApiService().getEpisodeDetail(slug, episode.seasonNumber, episode.episodeNumber, videoStream.fansubId);
   
-  const episodeName = `S${episode.seasonNumber}E${episode.episodeNumber} - ${episode.title}`;
-  
-  const success = await downloadVideo(videoUrl, animeTitle, episodeName);
+  // The stream carries the expected file size, used to verify the download, and its subtitle tracks
+  const success = await downloadVideo([videoStream], createDownloadNaming(slug, animeDetail, episode, videoStream), {
+    metadata: animeDetail ? createDownloadMetadata(slug, animeDetail, episode, videoStream, episodeDetail) : undefined,
+    mediaInfo: animeDetail ? createMediaInfo(animeDetail, episodeDetail, videoStream) : undefined
+  });
   
   if (success) {
     console.log('\n🎉 Download completed successfully!');
@@ -347,7 +810,7 @@ async function handleDownload(slug: string, episode: Episode, videoUrl: string):
 async function showMainMenu(): Promise<void> {
   const lastWatched = getLastWatchedAnime();
   const continueWatching = getContinueWatchingSuggestions();
-  const recentHistory = getWatchHistory(5);
+  const recentHistory = getRecentActivity(5);
   
   // Ana menüde Discord RPC durumunu güncelle
   await discordRPC.updateMainMenu();
@@ -395,6 +858,22 @@ async function showMainMenu(): Promise<void> {
     value: { type: 'search' }
   });
   
+  if (getWatchlist().length > 0) {
+    choices.push({
+      title: '🔖 Watchlist',
+      description: 'Anime you plan to watch, are watching or have finished',
+      value: { type: 'watchlist' }
+    });
+  }
+  
+  if (getLibrary().length > 0) {
+    choices.push({
+      title: '📚 Library',
+      description: 'Watch downloaded episodes offline',
+      value: { type: 'library' }
+    });
+  }
+  
   const response = await prompts({
     type: 'select',
     name: 'action',
@@ -417,6 +896,12 @@ async function showMainMenu(): Promise<void> {
     case 'search':
       await promptSearch();
       break;
+    case 'library':
+      await showLibrary();
+      break;
+    case 'watchlist':
+      await showWatchlist();
+      break;
   }
 }
 
@@ -431,7 +916,7 @@ async function continuePreviousWatch(entry: any): Promise<void> {
   await discordRPC.updateWatchingAnime(entry.animeTitle, `S${entry.seasonNumber}E${entry.episodeNumber}`);
   
   // Show progress info if available
-  if (entry.timePos && entry.duration && entry.progress < 90) {
+  if (entry.timePos && entry.duration && entry.progress < WATCHED_PROGRESS_THRESHOLD) {
     const timeStr = `${Math.floor(entry.timePos / 60)}:${Math.floor(entry.timePos % 60).toString().padStart(2, '0')}`;
     const durationStr = `${Math.floor(entry.duration / 60)}:${Math.floor(entry.duration % 60).toString().padStart(2, '0')}`;
     console.log(`Progress: ${entry.progress}% (${timeStr}/${durationStr})`);
@@ -440,8 +925,8 @@ async function continuePreviousWatch(entry: any): Promise<void> {
   // Build choices based on progress
   const choices = [];
   
-  // Add "resume from where I left off" option if progress < 90%
-  if (entry.timePos && entry.duration && entry.progress < 90) {
+  // Add "resume from where I left off" option if the episode isn't finished
+  if (entry.timePos && entry.duration && entry.progress < WATCHED_PROGRESS_THRESHOLD) {
     const timeStr = `${Math.floor(entry.timePos / 60)}:${Math.floor(entry.timePos % 60).toString().padStart(2, '0')}`;
     choices.push({
       title: `⏯️ Resume from ${timeStr} (${entry.progress}%)`,
@@ -449,12 +934,16 @@ async function continuePreviousWatch(entry: any): Promise<void> {
     });
   }
   
-  // Add next episode option
-  const nextEpisode = entry.episodeNumber + 1;
-  choices.push({
-    title: `▶️ Continue to Episode ${nextEpisode}`,
-    value: 'next'
-  });
+  // Add next episode option; the next episode may be in the following season
+  const nextEpisode = await getApiService().getNextEpisode(entry.animeSlug, entry.seasonNumber, entry.episodeNumber);
+  if (nextEpisode) {
+    choices.push({
+      title: nextEpisode.seasonNumber === entry.seasonNumber
+        ? `▶️ Continue to Episode ${nextEpisode.episodeNumber}`
+        : `▶️ Continue to Season ${nextEpisode.seasonNumber} Episode ${nextEpisode.episodeNumber}`,
+      value: 'next'
+    });
+  }
   
   // Add rewatch option
   choices.push({
@@ -477,33 +966,25 @@ async function continuePreviousWatch(entry: any): Promise<void> {
   
   if (choice.action === 'resume') {
     // Get episode details and play from the saved position
-    const episodes = await getAnimeEpisodes(entry.animeSlug, entry.seasonNumber);
+    const episodes = await getApiService().getEpisodes(entry.animeSlug, entry.seasonNumber);
     const episode = episodes.find(e => e.episodeNumber === entry.episodeNumber);
     
     if (episode) {
-      await handleEpisodeSelection(entry.animeSlug, episode, entry.timePos);
+      const [detailed] = await getApiService().fillEpisodeDetails(entry.animeSlug, [episode]);
+      await handleEpisodeSelection(entry.animeSlug, detailed, entry.timePos);
     } else {
       console.log('❌ Could not find episode to resume');
     }
-  } else if (choice.action === 'next') {
-    // Automatically select and play the next episode
-    const nextEpisodeNumber = entry.episodeNumber + 1;
-    const episodes = await getAnimeEpisodes(entry.animeSlug, entry.seasonNumber);
-    const nextEpisode = episodes.find(e => e.episodeNumber === nextEpisodeNumber);
-    
-    if (nextEpisode) {
-      console.log(`\nAutomatically playing next episode: ${nextEpisode.title}`);
-      await handleEpisodeSelection(entry.animeSlug, nextEpisode);
-    } else {
-      console.log('❌ Could not find next episode, going to episode selection');
-      await handleSeasonSelection(entry.animeSlug, entry.seasonNumber, `Season ${entry.seasonNumber}`);
-    }
+  } else if (choice.action === 'next' && nextEpisode) {
+    console.log(`\nAutomatically playing next episode: ${nextEpisode.title}`);
+    await handleEpisodeSelection(entry.animeSlug, nextEpisode);
   } else if (choice.action === 'rewatch') {
-    const episodes = await getAnimeEpisodes(entry.animeSlug, entry.seasonNumber);
+    const episodes = await getApiService().getEpisodes(entry.animeSlug, entry.seasonNumber);
     const currentEpisode = episodes.find(e => e.episodeNumber === entry.episodeNumber);
     
     if (currentEpisode) {
-      await handleEpisodeSelection(entry.animeSlug, currentEpisode);
+      const [detailed] = await getApiService().fillEpisodeDetails(entry.animeSlug, [currentEpisode]);
+      await handleEpisodeSelection(entry.animeSlug, detailed);
     } else {
       await handleSeasonSelection(entry.animeSlug, entry.seasonNumber, `Season ${entry.seasonNumber}`);
     }
@@ -516,7 +997,7 @@ async function continuePreviousWatch(entry: any): Promise<void> {
  * Show watch history
  */
 async function showWatchHistory(): Promise<void> {
-  const history = getWatchHistory(10);
+  const history = getRecentActivity(10);
   
   if (history.length === 0) {
     console.log('No watch history found.');
@@ -547,12 +1028,318 @@ async function showWatchHistory(): Promise<void> {
 }
 
 /**
- * Confirm and clear history
+ * Browse downloaded anime; works without a network connection
  */
-async function confirmClearHistory(): Promise<void> {
-  const confirm = await prompts({
-    type: 'confirm',
-    name: 'clear',
+async function showLibrary(): Promise<void> {
+  while (true) {
+    const library = getLibrary();
+    if (library.length === 0) {
+      console.log('No downloaded episodes found.');
+      return;
+    }
+    
+    const episodeCount = library.reduce((total, anime) => total + anime.episodes.length, 0);
+    const totalSize = library.reduce((total, anime) => total + anime.size, 0);
+    console.log(`\n📚 Library: ${library.length} anime, ${episodeCount} episodes, ${formatBytes(totalSize)} in ${getDownloadDir()}`);
+    
+    const response = await prompts({
+      type: 'select',
+      name: 'key',
+      message: 'Select an anime:',
+      choices: library.map(anime => ({
+        title: anime.title,
+        description: `${anime.episodes.length} episode${anime.episodes.length === 1 ? '' : 's'} · ${formatBytes(anime.size)}`,
+        value: anime.key
+      }))
+    });
+    
+    if (!response.key) return;
+    await showLibraryAnime(response.key);
+  }
+}
+
+/**
+ * Pick a downloaded episode of an anime to play or delete
+ */
+async function showLibraryAnime(key: string): Promise<void> {
+  while (true) {
+    // Re-read after every action so deleted episodes disappear
+    const anime = getLibrary().find(item => item.key === key);
+    if (!anime) return;
+    
+    const history = anime.animeId ? getAnimeWatchHistory(anime.animeId) : [];
+    const historyFor = (episode: LibraryEpisode) => history.find(entry =>
+      entry.seasonNumber === episode.seasonNumber && entry.episodeNumber === episode.episodeNumber
+    );
+    
+    const choices: prompts.Choice[] = anime.episodes.map(episode => ({
+      title: formatEpisodeChoice({ title: `S${episode.seasonNumber}E${episode.episodeNumber} - ${episode.title}` }, historyFor(episode)),
+      description: `${formatBytes(episode.size)}${anime.animeId ? '' : ' · Not linked to watch history'}`,
+      value: episode
+    }));
+    choices.push(
+      { title: '─────────────────────────────────────', value: null, disabled: true },
+      { title: '🗑️ Delete episodes', value: 'delete' }
+    );
+    
+    const firstUnfinished = anime.episodes.findIndex(episode => getEpisodeWatchStatus(historyFor(episode)) !== 'watched');
+    
+    const response = await prompts({
+      type: 'select',
+      name: 'episode',
+      message: `${anime.title} (${formatBytes(anime.size)}):`,
+      choices,
+      initial: Math.max(0, firstUnfinished)
+    });
+    
+    if (!response.episode) return;
+    
+    if (response.episode === 'delete') {
+      await promptDeleteLibraryEpisodes(anime);
+      continue;
+    }
+    
+    const episode = response.episode as LibraryEpisode;
+    const entry = historyFor(episode);
+    const canResume = getEpisodeWatchStatus(entry) === 'in-progress' && entry!.timePos > 0;
+    const timeStr = entry ? `${Math.floor(entry.timePos / 60)}:${Math.floor(entry.timePos % 60).toString().padStart(2, '0')}` : '';
+    
+    const actionChoices = [
+      ...(canResume ? [{ title: `⏯️ Resume from ${timeStr} (${entry!.progress}%)`, value: 'resume' }] : []),
+      { title: canResume ? '▶️  Play from the start' : '▶️  Play', value: 'play' },
+      { title: '🗑️ Delete', value: 'delete' }
+    ];
+    
+    const action = await prompts({
+      type: 'select',
+      name: 'value',
+      message: `S${episode.seasonNumber}E${episode.episodeNumber} - ${episode.title}`,
+      choices: actionChoices
+    });
+    
+    if (action.value === 'resume' || action.value === 'play') {
+      await playLibraryEpisode(anime, episode, action.value === 'resume' ? entry!.timePos : undefined);
+    } else if (action.value === 'delete') {
+      deleteLibraryEpisode(episode);
+    }
+  }
+}
+
+/**
+ * Ask which downloaded episodes of an anime to delete
+ */
+async function promptDeleteLibraryEpisodes(anime: LibraryAnime): Promise<void> {
+  const response = await prompts({
+    type: 'multiselect',
+    name: 'episodes',
+    message: 'Select the episodes to delete:',
+    choices: anime.episodes.map(episode => ({
+      title: `S${episode.seasonNumber}E${episode.episodeNumber} - ${episode.title} (${formatBytes(episode.size)})`,
+      value: episode
+    })),
+    hint: '- Space to toggle, Enter to delete'
+  });
+  
+  const episodes: LibraryEpisode[] = response.episodes || [];
+  if (episodes.length === 0) return;
+  
+  const freed = episodes.reduce((total, episode) => total + episode.size, 0);
+  const confirm = await prompts({
+    type: 'confirm',
+    name: 'delete',
+    message: `Delete ${episodes.length} episode${episodes.length === 1 ? '' : 's'} (${formatBytes(freed)})?`,
+    initial: false
+  });
+  if (!confirm.delete) return;
+  
+  episodes.forEach(episode => deleteLibraryEpisode(episode));
+}
+
+/**
+ * Play a downloaded episode and record it in the watch history, without using the API
+ */
+async function playLibraryEpisode(anime: LibraryAnime, episode: LibraryEpisode, startTime?: number): Promise<PlaybackProgress> {
+  const playOptions: PlaybackOptions = { startTime };
+  
+  if (anime.animeId) {
+    Object.assign(playOptions, {
+      animeId: anime.animeId,
+      animeTitle: anime.title,
+      animeSlug: anime.animeSlug || '',
+      seasonNumber: episode.seasonNumber,
+      episodeNumber: episode.episodeNumber,
+      episodeTitle: episode.title,
+      fansubName: episode.metadata?.fansubName || 'Unknown'
+    });
+  } else {
+    console.log('⚠️ This download has no metadata, so it won\'t be saved to watch history');
+  }
+  
+  const playbackResult = await playVideo(episode.filePath, playOptions);
+  
+  if (anime.animeId) {
+    saveWatchHistory({
+      animeId: anime.animeId,
+      animeTitle: anime.title,
+      animeSlug: anime.animeSlug || '',
+      seasonNumber: episode.seasonNumber,
+      episodeNumber: episode.episodeNumber,
+      episodeTitle: episode.title,
+      fansubName: episode.metadata?.fansubName || 'Unknown',
+      watchedAt: new Date(),
+      ...playbackResult
+    });
+  }
+  
+  // Offline, the update is queued until the next sync
+  if (episode.metadata?.malId && playbackResult.progress >= WATCHED_PROGRESS_THRESHOLD) {
+    await syncEpisodeProgress({ malId: episode.metadata.malId, episodeNumber: episode.episodeNumber, title: anime.title });
+  }
+  
+  return playbackResult;
+}
+
+const WATCHLIST_STATUS_LABELS: Record<WatchlistStatus, string> = {
+  'watching': '▶️ Watching',
+  'planning': '📋 Plan to watch',
+  'on-hold': '⏸️ On hold',
+  'completed': '✅ Completed',
+  'dropped': '🗑️ Dropped'
+};
+
+/**
+ * Get the anime menu entry that adds it to the watchlist, or shows its status there
+ */
+function formatWatchlistAction(slug: string): string {
+  const entry = getWatchlistEntry(slug);
+  return entry ? `🔖 Watchlist: ${WATCHLIST_STATUS_LABELS[entry.status]}` : '🔖 Add to watchlist';
+}
+
+/**
+ * Describe a watchlist entry, e.g. "Watching · 8/10 · rewatch the OVA first"
+ */
+function formatWatchlistDescription(entry: WatchlistEntry): string {
+  return [
+    WATCHLIST_STATUS_LABELS[entry.status],
+    entry.score ? `${entry.score}/10` : '',
+    entry.notes || ''
+  ].filter(Boolean).join(' · ');
+}
+
+/**
+ * Get what the watchlist keeps about an anime
+ */
+function toWatchlistAnime(slug: string, animeDetail: AnimeDetail): WatchlistAnime {
+  return { slug, animeId: animeDetail.id, title: getAnimeTitle(animeDetail), episodeCount: animeDetail.numberOfEpisodes };
+}
+
+/**
+ * Add an anime to the watchlist, or edit its entry: status, score and notes
+ */
+async function promptWatchlistEntry(anime: WatchlistAnime): Promise<void> {
+  const existing = getWatchlistEntry(anime.slug);
+  const initialStatus = existing?.status || suggestWatchlistStatus(anime.animeId, anime.episodeCount);
+  
+  const response = await prompts([
+    {
+      type: 'select',
+      name: 'status',
+      message: 'Status:',
+      choices: WATCHLIST_STATUSES.map(status => ({ title: WATCHLIST_STATUS_LABELS[status], value: status })),
+      initial: WATCHLIST_STATUSES.indexOf(initialStatus)
+    },
+    {
+      type: 'number',
+      name: 'score',
+      message: 'Score (1-10, 0 for none):',
+      initial: existing?.score ?? 0,
+      min: 0,
+      max: 10
+    },
+    {
+      type: 'text',
+      name: 'notes',
+      message: 'Notes:',
+      initial: existing?.notes || ''
+    }
+  ]);
+  
+  // Cancelled before the last question
+  if (response.notes === undefined) return;
+  
+  const entry = updateWatchlistEntry(anime, { status: response.status, score: response.score || null, notes: response.notes });
+  console.log(`🔖 ${existing ? 'Updated' : 'Added'} ${entry.title}: ${formatWatchlistDescription(entry)}`);
+}
+
+/**
+ * Browse the watchlist by status
+ */
+async function showWatchlist(): Promise<void> {
+  while (true) {
+    const watchlist = sortWatchlist(getWatchlist(), 'status');
+    if (watchlist.length === 0) {
+      console.log('Your watchlist is empty.');
+      return;
+    }
+    
+    const response = await prompts({
+      type: 'select',
+      name: 'slug',
+      message: 'Select an anime:',
+      choices: watchlist.map(entry => ({
+        title: `${WATCHLIST_STATUS_LABELS[entry.status].split(' ')[0]} ${entry.title}`,
+        description: formatWatchlistDescription(entry),
+        value: entry.slug
+      }))
+    });
+    
+    if (!response.slug) return;
+    await showWatchlistEntry(response.slug);
+  }
+}
+
+/**
+ * Watch, edit or remove a watchlist entry
+ */
+async function showWatchlistEntry(slug: string): Promise<void> {
+  const entry = getWatchlistEntry(slug);
+  if (!entry) return;
+  
+  console.log(`\n🔖 ${entry.title}: ${formatWatchlistDescription(entry)}`);
+  
+  const response = await prompts({
+    type: 'select',
+    name: 'action',
+    message: 'What would you like to do?',
+    choices: [
+      { title: '▶️ Watch', value: 'watch' },
+      { title: '✏️ Edit status, score and notes', value: 'edit' },
+      { title: '🗑️ Remove from watchlist', value: 'remove' }
+    ]
+  });
+  
+  if (response.action === 'edit') {
+    await promptWatchlistEntry(entry);
+  } else if (response.action === 'remove') {
+    removeWatchlistEntry(slug);
+    console.log(`🗑️ Removed ${entry.title} from the watchlist`);
+  } else if (response.action === 'watch') {
+    const animeDetail = await getApiService().getAnimeDetail(slug);
+    if (animeDetail) {
+      await handleAnimeSelection(animeDetail);
+    } else {
+      console.log('Could not get anime details.');
+    }
+  }
+}
+
+/**
+ * Confirm and clear history
+ */
+async function confirmClearHistory(): Promise<void> {
+  const confirm = await prompts({
+    type: 'confirm',
+    name: 'clear',
     message: 'Are you sure you want to clear all watch history?',
     initial: false
   });
@@ -577,7 +1364,7 @@ async function promptSearch(): Promise<void> {
     console.log(`Searching for: ${searchResponse.query}`);
     // Discord RPC'yi arama durumuna güncelle
     await discordRPC.updateSearching(searchResponse.query);
-    const results = await searchAnime(searchResponse.query);
+    const results = await getApiService().search(searchResponse.query);
     await handleSearchResults(results);
   }
 }
@@ -591,11 +1378,11 @@ async function promptSearch(): Promise<void> {
 async function saveToHistory(slug: string, episode: Episode, fansubId: string, progress: number = 100, timePos: number = 0, duration: number = 0): Promise<void> {
   try {
     // Get anime details
-    const animeDetail = await getAnimeDetail(slug);
+    const animeDetail = await getApiService().getAnimeDetail(slug);
     if (!animeDetail) return;
     
     // Get episode details for fansub name
-    const episodeDetail = await getEpisodeDetail(slug, episode.seasonNumber, episode.episodeNumber);
+    const episodeDetail = await getApiService().getEpisodeDetail(slug, episode.seasonNumber, episode.episodeNumber, fansubId);
     if (!episodeDetail) return;
     
     const fansub = episodeDetail.fansubs.find(f => f.id === fansubId);
@@ -633,16 +1420,248 @@ program
   .description('A command-line interface for watching anime from various streaming sites')
   .version('1.0.0');
 
-// Initialize Discord RPC - non-blocking
-discordRPC.connect().catch(error => {
-  console.error('Error initializing Discord RPC:', error);
-});
+/**
+ * Initialize Discord RPC - non-blocking
+ */
+function initDiscordRPC(): void {
+  discordRPC.connect().catch(error => {
+    console.error('Error initializing Discord RPC:', error);
+  });
+}
+
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * Print an error and exit with a non-zero code
+ */
+function fail(message: string, code: number = EXIT_FAILURE): never {
+  console.error(`❌ ${message}`);
+  process.exit(code);
+}
+
+/**
+ * Print data as JSON on stdout (console.log is redirected to stderr in --json mode)
+ */
+function printJson(data: unknown): void {
+  process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+}
+
+/**
+ * Parse a positive integer argument or exit with a usage error
+ */
+function parsePositiveInt(value: string, name: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    fail(`${name} must be a positive whole number, got "${value}"`, EXIT_USAGE);
+  }
+  return number;
+}
+
+/**
+ * Validate a --quality option and use it for this session
+ */
+function applyQualityOption(quality?: string): void {
+  if (!quality) return;
+  try {
+    session.quality = validateConfigValue('defaultQuality', quality);
+  } catch (error) {
+    fail(`Invalid quality: ${error instanceof Error ? error.message : String(error)}`, EXIT_USAGE);
+  }
+}
+
+/**
+ * Find a fansub by id, secure name or display name
+ */
+function findFansub(episodeDetail: EpisodeDetail, query: string): EpisodeDetail['fansubs'][number] | undefined {
+  const normalized = query.toLowerCase();
+  return episodeDetail.fansubs.find(f => f.id === query)
+    || episodeDetail.fansubs.find(f => f.secureName?.toLowerCase() === normalized || f.name.toLowerCase() === normalized);
+}
+
+/**
+ * Get the title to display for an anime
+ */
+function getAnimeTitle(anime: AnimeResult | AnimeDetail): string {
+  return anime.english || anime.turkish || anime.romaji;
+}
+
+/**
+ * Get the fansub to use when none was given on the command line: the remembered or preferred one, else the first
+ */
+function getDefaultFansub(slug: string, episodeDetail: EpisodeDetail): EpisodeDetail['fansubs'][number] {
+  const { fansub, wanted } = choosePreferredFansub(slug, episodeDetail.fansubs);
+  const selected = fansub || episodeDetail.fansubs[0] || episodeDetail.episodeData.fansub;
+  if (wanted) {
+    console.error(`⚠️ ${wanted} hasn't released S${episodeDetail.episodeData.season?.number ?? '?'}E${episodeDetail.episodeData.episodeNumber} yet, using ${selected.name}`);
+  }
+  return selected;
+}
+
+/**
+ * Resolve an episode, its details and the fansub to use, exiting with an error if any is missing
+ */
+async function resolveEpisode(slug: string, seasonArg: string, episodeArg: string, fansubQuery?: string): Promise<{ episode: Episode; episodeDetail: EpisodeDetail; fansub: EpisodeDetail['fansubs'][number] }> {
+  const seasonNumber = parsePositiveInt(seasonArg, 'Season');
+  const episodeNumber = parsePositiveInt(episodeArg, 'Episode');
+  
+  const episodes = await getApiService().getEpisodes(slug, seasonNumber);
+  const listed = episodes.find(e => e.episodeNumber === episodeNumber);
+  if (!listed) fail(`Episode S${seasonNumber}E${episodeNumber} not found for ${slug}`);
+  const [episode] = await getApiService().fillEpisodeDetails(slug, [listed]);
+  
+  const episodeDetail = await getApiService().getEpisodeDetail(slug, seasonNumber, episodeNumber);
+  if (!episodeDetail) fail(`Could not get details for S${seasonNumber}E${episodeNumber}`);
+  
+  const fansub = fansubQuery ? findFansub(episodeDetail, fansubQuery) : getDefaultFansub(slug, episodeDetail);
+  if (!fansub) {
+    const available = episodeDetail.fansubs.map(f => f.secureName || f.name).join(', ') || 'none';
+    fail(`Fansub "${fansubQuery}" not found (available: ${available})`);
+  }
+  
+  return { episode, episodeDetail, fansub };
+}
+
+/**
+ * Parse an episode list like "1-12", "5" or "1,3,7-9" into sorted episode numbers
+ */
+function parseEpisodeRange(spec: string): number[] {
+  const numbers = new Set<number>();
+  
+  for (const part of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) fail(`Invalid episode range "${part}" (use e.g. 1-12 or 1,3,5)`, EXIT_USAGE);
+    
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    if (start < 1 || end < start) fail(`Invalid episode range "${part}"`, EXIT_USAGE);
+    
+    for (let i = start; i <= end; i++) numbers.add(i);
+  }
+  
+  return Array.from(numbers).sort((a, b) => a - b);
+}
+
+/**
+ * Show queue progress: a live status line on terminals and one line per finished episode
+ */
+function reportQueueProgress(job: DownloadJob, jobs: DownloadJob[]): void {
+  const finished = jobs.filter(j => j.status !== 'pending' && j.status !== 'running').length;
+  const isTTY = process.stdout.isTTY;
+  
+  if (job.status !== 'pending' && job.status !== 'running') {
+    if (isTTY) process.stdout.write('\r\x1b[K');
+    if (job.status === 'done') console.log(`✅ ${job.label}`);
+    if (job.status === 'skipped') console.log(`⏭️  ${job.label} (already downloaded)`);
+    if (job.status === 'failed') console.log(`❌ ${job.label}: ${job.error}`);
+  }
+  
+  if (isTTY) {
+    const running = jobs
+      .filter(j => j.status === 'running')
+      .map(j => `${j.label.split(' - ')[0]} ${Math.round(j.percent)}%`)
+      .join(' | ');
+    process.stdout.write(`\r\x1b[K📊 ${finished}/${jobs.length} episodes, ${getQueueProgress(jobs)}% total${running ? ` - ${running}` : ''}`);
+  }
+}
+
+/**
+ * Download one episode of a batch, quietly. Falls back to the remembered/preferred fansub,
+ * then the first one, when the requested one hasn't released the episode.
+ */
+async function downloadQueuedEpisode(slug: string, animeDetail: AnimeDetail, episode: Pick<Episode, 'seasonNumber' | 'episodeNumber' | 'title'>, fansubQuery: string | undefined, onProgress: (percent: number) => void): Promise<'done' | 'skipped'> {
+  const episodeDetail = await getApiService().getEpisodeDetail(slug, episode.seasonNumber, episode.episodeNumber);
+  if (!episodeDetail) throw new Error('could not get episode details');
+  // Episode lists only have placeholder titles; the file name uses the real one
+  episode = { ...episode, title: episodeDetail.episodeData.name?.trim() || episode.title };
+  
+  const fansub = (fansubQuery && findFansub(episodeDetail, fansubQuery)) || getDefaultFansub(slug, episodeDetail);
+  const videoStream = await getApiService().getVideoStream(slug, episode.seasonNumber, episode.episodeNumber, fansub.id, session.quality);
+  if (!videoStream) throw new Error('could not get video URL');
+  
+  // The fansub and resolution can be part of the file name, so check for it once the stream is known.
+  // downloadVideo still runs for existing files: it resumes incomplete ones and fills in missing sidecars.
+  const naming = createDownloadNaming(slug, animeDetail, episode, videoStream);
+  const alreadyDownloaded = isDownloadComplete(getDownloadFilePath(naming), videoStream.size);
+  
+  const success = await downloadVideo([videoStream], naming, {
+    metadata: createDownloadMetadata(slug, animeDetail, episode, videoStream, episodeDetail),
+    mediaInfo: createMediaInfo(animeDetail, episodeDetail, videoStream),
+    quiet: true,
+    onProgress: (progress) => onProgress(progress.percent || 0)
+  });
+  if (!success) throw new Error('download failed');
+  return alreadyDownloaded ? 'skipped' : 'done';
+}
+
+/**
+ * Print the totals of a finished download queue and the episodes that failed
+ */
+function printQueueSummary(summary: DownloadQueueSummary): void {
+  console.log(`\n🎉 Downloaded: ${summary.done.length}, skipped: ${summary.skipped.length}, failed: ${summary.failed.length}`);
+  if (summary.failed.length > 0) {
+    console.log('\nFailed episodes:');
+    for (const job of summary.failed) {
+      console.log(`  ❌ ${job.label}: ${job.error}`);
+    }
+  }
+}
+
+/**
+ * Resolve a config key from user input or exit with an error
+ */
+function requireConfigKey(key: string): ConfigKey {
+  if (!isConfigKey(key)) {
+    console.error(`❌ Unknown config key: ${key}`);
+    console.error(`Available keys: ${getConfigKeys().join(', ')}`);
+    process.exit(1);
+  }
+  return key;
+}
+
+// Global cache flags apply to every command
+program
+  .option('--no-cache', 'Do not read or write the on-disk response cache')
+  .option('--refresh', 'Ignore cached responses and fetch fresh data')
+  .option('-s, --source <name>', 'Anime source to use (see "openanime sources")')
+  .hook('preAction', (_thisCommand, actionCommand) => {
+    // Keep stdout clean for JSON output; progress messages go to stderr
+    if (actionCommand.opts().json) {
+      console.log = console.error;
+    }
+    
+    const options = program.opts();
+    if (!options.cache) {
+      setCacheMode('disabled');
+    } else if (options.refresh) {
+      setCacheMode('refresh');
+    }
+    
+    // --source wins over the source config key
+    if (options.source) {
+      try {
+        setActiveSource(options.source);
+      } catch (error) {
+        console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+      }
+    } else if (!hasApiService(getConfig().source)) {
+      // Keep the CLI usable (including "config reset source") when the config names a missing source
+      console.error(`⚠️ Unknown source "${getConfig().source}" in config, using openanime`);
+      setActiveSource('openanime');
+    }
+  });
 
 // Default command for anime search
 program
   .argument('[animeName...]', 'Name of the anime to search for')
   .description('Search for and watch anime')
-  .action(async (animeNameArgs) => {
+  .option('-q, --quality <quality>', 'Preferred video quality (e.g. 480p, 720p, 1080p, best, worst)')
+  .action(async (animeNameArgs, options) => {
+    applyQualityOption(options.quality);
+    
+    initDiscordRPC();
+    
     const animeName = animeNameArgs.join(' ').replace(/^"(.*)"$/, '$1');
     
     if (!animeName) {
@@ -653,10 +1672,791 @@ program
     
     console.log(`Searching for: ${animeName}`);
     await discordRPC.updateSearching(animeName);
-    const results = await searchAnime(animeName);
+    const results = await getApiService().search(animeName);
     await handleSearchResults(results);
   });
 
+// Non-interactive commands for scripts; they exit with 0 on success, 1 on failure and 2 on bad arguments
+program
+  .command('search <query...>')
+  .description('Search for anime without prompts (exits with 1 if nothing is found)')
+  .option('--json', 'Output results as JSON')
+  .action(async (queryArgs: string[], options) => {
+    const results = await getApiService().search(queryArgs.join(' '));
+    
+    if (options.json) {
+      printJson(results);
+    } else {
+      for (const anime of results) {
+        console.log(`${anime.slug}\t${getAnimeTitle(anime)} (${anime.type})`);
+      }
+    }
+    
+    process.exit(results.length > 0 ? 0 : EXIT_FAILURE);
+  });
+
+program
+  .command('info <slug>')
+  .description('Show anime details and seasons')
+  .option('--json', 'Output details as JSON')
+  .action(async (slug: string, options) => {
+    const animeDetail = await getApiService().getAnimeDetail(slug);
+    if (!animeDetail) fail(`Anime not found: ${slug}`);
+    
+    if (options.json) {
+      printJson(animeDetail);
+    } else {
+      console.log(getAnimeTitle(animeDetail));
+      console.log(`Type: ${animeDetail.type}`);
+      console.log(`Seasons: ${animeDetail.numberOfSeasons}, Episodes: ${animeDetail.numberOfEpisodes}`);
+      for (const season of animeDetail.seasons) {
+        console.log(`  S${season.season_number}: ${season.name} (${season.episode_count} episodes, ${season.air_date})${season.hasEpisode ? '' : ' - not available'}`);
+      }
+      if (animeDetail.summary) console.log(`\n${animeDetail.summary}`);
+    }
+    
+    process.exit(0);
+  });
+
+program
+  .command('episodes <slug>')
+  .description('List episodes of an anime, optionally for one season')
+  .option('--season <number>', 'Season number (default: all seasons)')
+  .option('--titles', 'Fetch episode titles, air dates and availability (one request per episode; on by default with --season)')
+  .option('--json', 'Output episodes as JSON')
+  .action(async (slug: string, options) => {
+    const seasonNumber = options.season ? parsePositiveInt(options.season, 'Season') : undefined;
+    const listed = await getApiService().getEpisodes(slug, seasonNumber);
+    // A whole series can have hundreds of episodes, so only fetch their details when asked to
+    const episodes = seasonNumber || options.titles ? await getApiService().fillEpisodeDetails(slug, listed) : listed;
+    if (episodes.length === 0) fail(`No episodes found for ${slug}${seasonNumber ? ` season ${seasonNumber}` : ''}`);
+    
+    if (options.json) {
+      printJson(episodes);
+    } else {
+      for (const episode of episodes) {
+        console.log(`S${episode.seasonNumber}E${episode.episodeNumber}\t${episode.title}`);
+      }
+    }
+    
+    process.exit(0);
+  });
+
+program
+  .command('url <slug> <season> <episode>')
+  .description('Print the video URL of an episode')
+  .option('-f, --fansub <fansub>', 'Fansub id or name (default: first available)')
+  .option('-q, --quality <quality>', 'Video quality (e.g. 480p, 720p, 1080p, best, worst)')
+  .option('--json', 'Output the URL and stream details as JSON')
+  .action(async (slug: string, seasonArg: string, episodeArg: string, _options, command: Command) => {
+    const options = command.optsWithGlobals();
+    applyQualityOption(options.quality);
+    
+    const { episode, fansub } = await resolveEpisode(slug, seasonArg, episodeArg, options.fansub);
+    const videoStream = await getApiService().getVideoStream(slug, episode.seasonNumber, episode.episodeNumber, fansub.id, session.quality);
+    if (!videoStream) fail('Could not get video URL');
+    
+    if (options.json) {
+      printJson({
+        slug,
+        seasonNumber: episode.seasonNumber,
+        episodeNumber: episode.episodeNumber,
+        fansub,
+        quality: session.quality || getConfig().defaultQuality,
+        url: videoStream.url,
+        subtitles: videoStream.subtitles || []
+      });
+    } else {
+      console.log(videoStream.url);
+    }
+    
+    process.exit(0);
+  });
+
+program
+  .command('play <slug> <season> <episode>')
+  .description('Play an episode without prompts and save it to watch history')
+  .option('-f, --fansub <fansub>', 'Fansub id or name (default: first available)')
+  .option('-q, --quality <quality>', 'Video quality (e.g. 480p, 720p, 1080p, best, worst)')
+  .option('--start <seconds>', 'Start position in seconds')
+  .option('--sub-lang <languages>', 'Preferred subtitle languages, e.g. tr,en (default: subtitleLanguages config)')
+  .option('--audio-lang <languages>', 'Preferred audio languages, e.g. ja (default: audioLanguages config)')
+  .option('--json', 'Output the playback result as JSON')
+  .action(async (slug: string, seasonArg: string, episodeArg: string, _options, command: Command) => {
+    const options = command.optsWithGlobals();
+    applyQualityOption(options.quality);
+    const startTime = options.start ? Number(options.start) : undefined;
+    if (startTime !== undefined && (!Number.isFinite(startTime) || startTime < 0)) {
+      fail(`Start position must be a number of seconds, got "${options.start}"`, EXIT_USAGE);
+    }
+    
+    const { episode, fansub } = await resolveEpisode(slug, seasonArg, episodeArg, options.fansub);
+    const videoStream = await getApiService().getVideoStream(slug, episode.seasonNumber, episode.episodeNumber, fansub.id, session.quality);
+    if (!videoStream) fail('Could not get video URL');
+    
+    const animeDetail = await getApiService().getAnimeDetail(slug);
+    const playbackResult = await playVideo([videoStream], {
+      startTime,
+      quality: getPreferredQuality(),
+      subtitleLanguages: options.subLang !== undefined ? validateConfigValue('subtitleLanguages', options.subLang) : undefined,
+      audioLanguages: options.audioLang !== undefined ? validateConfigValue('audioLanguages', options.audioLang) : undefined,
+      animeId: animeDetail?.id,
+      animeTitle: animeDetail ? getAnimeTitle(animeDetail) : slug,
+      animeSlug: slug,
+      seasonNumber: episode.seasonNumber,
+      episodeNumber: episode.episodeNumber,
+      episodeTitle: episode.title,
+      fansubName: fansub.name
+    });
+    
+    await saveToHistory(slug, episode, fansub.id, playbackResult.progress, playbackResult.timePos, playbackResult.duration);
+    await updateTrackers(slug, episode, playbackResult.progress);
+    
+    if (options.json) {
+      printJson({ slug, seasonNumber: episode.seasonNumber, episodeNumber: episode.episodeNumber, fansub, ...playbackResult });
+    }
+    
+    process.exit(0);
+  });
+
+program
+  .command('download <slug>')
+  .description('Download a range of episodes or a whole season')
+  .option('--season <number>', 'Season number', '1')
+  .option('-e, --episodes <range>', 'Episodes to download, e.g. 1-12 or 1,3,5 (default: whole season)')
+  .option('-f, --fansub <fansub>', 'Preferred fansub id or name (default: first available)')
+  .option('-q, --quality <quality>', 'Video quality (e.g. 480p, 720p, 1080p, best, worst)')
+  .option('-c, --concurrency <number>', 'Number of parallel downloads (default: downloadConcurrency config)')
+  .action(async (slug: string, _options, command: Command) => {
+    const options = command.optsWithGlobals();
+    applyQualityOption(options.quality);
+    
+    const seasonNumber = parsePositiveInt(options.season, 'Season');
+    const concurrency = options.concurrency ? parsePositiveInt(options.concurrency, 'Concurrency') : getConfig().downloadConcurrency;
+    
+    const animeDetail = await getApiService().getAnimeDetail(slug);
+    if (!animeDetail) fail(`Anime not found: ${slug}`);
+    const animeTitle = getAnimeTitle(animeDetail);
+    
+    const seasonEpisodes = await getApiService().getEpisodes(slug, seasonNumber);
+    if (seasonEpisodes.length === 0) fail(`No episodes found for ${slug} season ${seasonNumber}`);
+    
+    const wanted = options.episodes ? parseEpisodeRange(options.episodes) : seasonEpisodes.map(e => e.episodeNumber);
+    const episodes = seasonEpisodes.filter(e => wanted.includes(e.episodeNumber));
+    const missing = wanted.filter(n => !seasonEpisodes.some(e => e.episodeNumber === n));
+    if (missing.length > 0) {
+      console.log(`⚠️ Season ${seasonNumber} has no episode ${missing.join(', ')}`);
+    }
+    if (episodes.length === 0) fail('Nothing to download');
+    
+    console.log(`⬇️ Downloading ${episodes.length} episode${episodes.length === 1 ? '' : 's'} of ${animeTitle} (season ${seasonNumber}, ${concurrency} at a time)`);
+    
+    const jobs = episodes.map(episode => createDownloadJob(formatEpisodeName(episode), (onProgress) =>
+      downloadQueuedEpisode(slug, animeDetail, episode, options.fansub, onProgress)
+    ));
+    
+    const summary = await runDownloadQueue(jobs, concurrency, reportQueueProgress);
+    if (process.stdout.isTTY) process.stdout.write('\n');
+    printQueueSummary(summary);
+    
+    process.exit(summary.failed.length > 0 ? EXIT_FAILURE : 0);
+  });
+
+program
+  .command('follow [slug]')
+  .description('Follow an anime to be told about its new episodes, or list followed anime')
+  .option('--json', 'Output the followed anime as JSON')
+  .action(async (slug: string | undefined, _options, command: Command) => {
+    const options = command.optsWithGlobals();
+    
+    if (!slug) {
+      const followed = getFollowedAnime();
+      if (options.json) {
+        printJson(followed);
+        return;
+      }
+      if (followed.length === 0) {
+        console.log('Not following any anime.');
+        return;
+      }
+      for (const anime of followed) {
+        const episodeCount = Object.values(anime.episodeCounts).reduce((total, count) => total + count, 0);
+        const checked = anime.checkedAt ? `${episodeCount} episodes, checked ${new Date(anime.checkedAt).toLocaleString()}` : 'not checked yet';
+        console.log(`🔔 ${anime.title} (${anime.slug}) - ${checked}`);
+      }
+      return;
+    }
+    
+    const existing = findFollowedAnime(slug);
+    if (existing) {
+      console.log(`Already following ${existing.title}`);
+      return;
+    }
+    
+    const animeDetail = await getApiService().getAnimeDetail(slug);
+    if (!animeDetail) fail(`Anime not found: ${slug}`);
+    
+    const now = new Date().toISOString();
+    followAnime({
+      slug,
+      animeId: animeDetail.id,
+      title: getAnimeTitle(animeDetail),
+      followedAt: now,
+      episodeCounts: getEpisodeCounts(animeDetail),
+      checkedAt: now
+    });
+    console.log(`🔔 Following ${getAnimeTitle(animeDetail)} (${animeDetail.numberOfEpisodes} episodes so far)`);
+  });
+
+program
+  .command('unfollow <slug>')
+  .description('Stop following an anime')
+  .action((slug: string) => {
+    const anime = findFollowedAnime(slug);
+    if (!anime || !unfollowAnime(slug)) fail(`Not following ${slug}`);
+    console.log(`🔕 Stopped following ${anime.title}`);
+  });
+
+program
+  .command('updates')
+  .description('List new episodes of followed anime and optionally download them, e.g. from cron')
+  .option('-d, --download', 'Download the new episodes')
+  .option('-f, --fansub <fansub>', 'Preferred fansub id or name for downloads (default: remembered or preferred)')
+  .option('-q, --quality <quality>', 'Video quality for downloads (e.g. 480p, 720p, 1080p, best, worst)')
+  .option('-c, --concurrency <number>', 'Number of parallel downloads (default: downloadConcurrency config)')
+  .option('--json', 'Output the new episodes as JSON')
+  .action(async (_options, command: Command) => {
+    const options = command.optsWithGlobals();
+    applyQualityOption(options.quality);
+    const concurrency = options.concurrency ? parsePositiveInt(options.concurrency, 'Concurrency') : getConfig().downloadConcurrency;
+    
+    const followed = getFollowedAnime();
+    if (followed.length === 0) {
+      if (options.json) printJson([]);
+      console.log('Not following any anime. Use "openanime follow <slug>" to follow one.');
+      return;
+    }
+    
+    // Episode counts have to be current, so don't answer from the on-disk cache
+    if (options.cache) setCacheMode('refresh');
+    
+    const checks = await checkForUpdates(followed);
+    for (const { anime, detail, newEpisodes, firstCheck } of checks) {
+      if (!detail) {
+        console.log(`⚠️ Could not check ${anime.title}`);
+      } else if (firstCheck) {
+        console.log(`👀 ${anime.title}: ${detail.numberOfEpisodes} episodes so far, new ones are listed from the next check`);
+      } else if (newEpisodes.length > 0) {
+        console.log(`🆕 ${getAnimeTitle(detail)}: ${newEpisodes.map(e => `S${e.seasonNumber}E${e.episodeNumber}`).join(', ')}`);
+      }
+    }
+    
+    const newEpisodeCount = checks.reduce((total, check) => total + check.newEpisodes.length, 0);
+    if (newEpisodeCount === 0) {
+      console.log('No new episodes.');
+    }
+    
+    // Download jobs by slug and episode, to look up how each new episode went
+    const jobs = new Map<string, DownloadJob>();
+    const jobKey = (slug: string, episode: NewEpisode) => `${slug}/${episode.seasonNumber}/${episode.episodeNumber}`;
+    
+    if (options.download && newEpisodeCount > 0) {
+      for (const { anime, detail, newEpisodes } of checks) {
+        for (const newEpisode of newEpisodes) {
+          const label = `${anime.title} S${newEpisode.seasonNumber}E${newEpisode.episodeNumber}`;
+          jobs.set(jobKey(anime.slug, newEpisode), createDownloadJob(label, (onProgress) =>
+            downloadQueuedEpisode(anime.slug, detail!, { ...newEpisode, title: `Episode ${newEpisode.episodeNumber}` }, options.fansub, onProgress)
+          ));
+        }
+      }
+      
+      console.log(`\n⬇️ Downloading ${jobs.size} new episode${jobs.size === 1 ? '' : 's'} (${concurrency} at a time)`);
+      const summary = await runDownloadQueue(Array.from(jobs.values()), concurrency, options.json ? undefined : reportQueueProgress);
+      if (process.stdout.isTTY && !options.json) process.stdout.write('\n');
+      printQueueSummary(summary);
+    }
+    
+    // Record the new counts, leaving out failed downloads so they are tried again next time
+    const checkedAt = new Date().toISOString();
+    saveFollowedAnime(checks.map(({ anime, detail, newEpisodes }) => {
+      if (!detail) return anime;
+      const failed = newEpisodes.filter(episode => jobs.get(jobKey(anime.slug, episode))?.status === 'failed');
+      return { ...anime, title: getAnimeTitle(detail), episodeCounts: getCheckedEpisodeCounts(detail, failed), checkedAt };
+    }));
+    
+    if (options.json) {
+      printJson(checks.map(({ anime, detail, newEpisodes, firstCheck }) => ({
+        slug: anime.slug,
+        title: detail ? getAnimeTitle(detail) : anime.title,
+        checked: detail !== null,
+        firstCheck,
+        newEpisodes: newEpisodes.map(episode => {
+          const job = jobs.get(jobKey(anime.slug, episode));
+          return { ...episode, download: job?.status, error: job?.error };
+        })
+      })));
+    }
+    
+    const failedChecks = checks.some(check => !check.detail);
+    const failedDownloads = Array.from(jobs.values()).some(job => job.status === 'failed');
+    process.exit(failedChecks || failedDownloads ? EXIT_FAILURE : 0);
+  });
+
+/**
+ * Read the --status, --score and --notes options of a watchlist command, exiting with a usage error on bad values
+ */
+function parseWatchlistOptions(options: { status?: string; score?: string; notes?: string }): WatchlistChanges {
+  const parse = <T>(name: string, value: string | undefined, parser: (value: string) => T): T | undefined => {
+    if (value === undefined) return undefined;
+    try {
+      return parser(value);
+    } catch (error) {
+      fail(`Invalid --${name}: ${error instanceof Error ? error.message : String(error)}`, EXIT_USAGE);
+    }
+  };
+  
+  return {
+    status: parse('status', options.status, parseWatchlistStatus),
+    score: parse('score', options.score, parseWatchlistScore),
+    notes: options.notes
+  };
+}
+
+// Watchlist commands; only "add" needs the network
+const watchlistCommand = program
+  .command('watchlist')
+  .description('Keep a list of anime to watch with statuses, scores and notes');
+
+watchlistCommand
+  .command('browse', { isDefault: true })
+  .description('Browse the watchlist interactively')
+  .action(async () => {
+    await showWatchlist();
+  });
+
+watchlistCommand
+  .command('list')
+  .description('List the watchlist')
+  .option('--status <statuses>', `Only show these statuses, comma-separated (${WATCHLIST_STATUSES.join(', ')})`)
+  .option('--sort <order>', `Sort by ${WATCHLIST_SORTS.join(', ')}`, 'status')
+  .option('--json', 'Output the watchlist as JSON')
+  .action((_options, command: Command) => {
+    const options = command.optsWithGlobals();
+    if (!(WATCHLIST_SORTS as string[]).includes(options.sort)) {
+      fail(`Invalid --sort: expected one of ${WATCHLIST_SORTS.join(', ')}`, EXIT_USAGE);
+    }
+    const statuses = options.status
+      ? String(options.status).split(',').map(status => parseWatchlistOptions({ status }).status!)
+      : WATCHLIST_STATUSES;
+    
+    const watchlist = sortWatchlist(getWatchlist().filter(entry => statuses.includes(entry.status)), options.sort as WatchlistSort);
+    
+    if (options.json) {
+      printJson(watchlist);
+      return;
+    }
+    
+    if (watchlist.length === 0) {
+      console.log(options.status ? 'No anime on the watchlist with that status.' : 'Your watchlist is empty.');
+      return;
+    }
+    
+    for (const entry of watchlist) {
+      console.log(`${entry.title} (${entry.slug}) - ${formatWatchlistDescription(entry)}`);
+    }
+  });
+
+watchlistCommand
+  .command('add <slug>')
+  .description('Add an anime to the watchlist, or update it (status defaults to what your watch history shows, else planning)')
+  .option('--status <status>', `One of ${WATCHLIST_STATUSES.join(', ')}`)
+  .option('--score <score>', 'Personal score from 1 to 10, 0 to clear it')
+  .option('--notes <notes>', 'Notes, "" to clear them')
+  .action(async (slug: string, _options, command: Command) => {
+    const changes = parseWatchlistOptions(command.optsWithGlobals());
+    
+    const animeDetail = await getApiService().getAnimeDetail(slug);
+    if (!animeDetail) fail(`Anime not found: ${slug}`);
+    
+    const existing = getWatchlistEntry(slug);
+    const entry = updateWatchlistEntry(toWatchlistAnime(slug, animeDetail), changes);
+    console.log(`🔖 ${existing ? 'Updated' : 'Added'} ${entry.title}: ${formatWatchlistDescription(entry)}`);
+  });
+
+watchlistCommand
+  .command('set <slug>')
+  .description('Change the status, score or notes of an anime on the watchlist')
+  .option('--status <status>', `One of ${WATCHLIST_STATUSES.join(', ')}`)
+  .option('--score <score>', 'Personal score from 1 to 10, 0 to clear it')
+  .option('--notes <notes>', 'Notes, "" to clear them')
+  .action((slug: string, _options, command: Command) => {
+    const changes = parseWatchlistOptions(command.optsWithGlobals());
+    
+    const existing = getWatchlistEntry(slug);
+    if (!existing) fail(`Not on the watchlist: ${slug}`);
+    
+    const entry = updateWatchlistEntry(existing, changes);
+    console.log(`🔖 Updated ${entry.title}: ${formatWatchlistDescription(entry)}`);
+  });
+
+watchlistCommand
+  .command('remove <slug>')
+  .description('Remove an anime from the watchlist')
+  .action((slug: string) => {
+    const entry = getWatchlistEntry(slug);
+    if (!entry || !removeWatchlistEntry(slug)) fail(`Not on the watchlist: ${slug}`);
+    console.log(`🗑️ Removed ${entry.title} from the watchlist`);
+  });
+
+// Offline library commands; none of them use the network
+const libraryCommand = program
+  .command('library')
+  .description('Browse, play and delete downloaded episodes offline');
+
+libraryCommand
+  .command('browse', { isDefault: true })
+  .description('Browse downloaded anime interactively')
+  .action(async () => {
+    await showLibrary();
+  });
+
+libraryCommand
+  .command('list [anime]')
+  .description('List downloaded anime, or the episodes of one, with disk usage')
+  .option('--json', 'Output the library as JSON')
+  .action((animeQuery: string | undefined, _options, command: Command) => {
+    const options = command.optsWithGlobals();
+    const library = getLibrary();
+    const selected = animeQuery ? [findLibraryAnime(library, animeQuery) ?? fail(`Not in the library: ${animeQuery}`)] : library;
+    
+    const withStatus = selected.map(anime => {
+      const history = anime.animeId ? getAnimeWatchHistory(anime.animeId) : [];
+      return {
+        ...anime,
+        episodes: anime.episodes.map(episode => {
+          const entry = history.find(item => item.seasonNumber === episode.seasonNumber && item.episodeNumber === episode.episodeNumber);
+          return { ...episode, status: getEpisodeWatchStatus(entry), progress: entry?.progress || 0 };
+        })
+      };
+    });
+    
+    if (options.json) {
+      printJson(withStatus);
+      return;
+    }
+    
+    if (library.length === 0) {
+      console.log('No downloaded episodes found.');
+      return;
+    }
+    
+    const statusIcons = { 'watched': '✅', 'in-progress': '⏯️', 'unwatched': '⬜' };
+    for (const anime of withStatus) {
+      console.log(`📚 ${anime.title}${anime.animeSlug ? ` (${anime.animeSlug})` : ''} - ${anime.episodes.length} episode${anime.episodes.length === 1 ? '' : 's'}, ${formatBytes(anime.size)}`);
+      if (!animeQuery) continue;
+      for (const episode of anime.episodes) {
+        const progress = episode.status === 'in-progress' ? ` ${episode.progress}%` : '';
+        console.log(`  ${statusIcons[episode.status]} S${episode.seasonNumber}E${episode.episodeNumber} - ${episode.title} (${formatBytes(episode.size)})${progress}`);
+      }
+    }
+    if (!animeQuery) {
+      console.log(`\nTotal: ${formatBytes(library.reduce((total, anime) => total + anime.size, 0))} in ${getDownloadDir()}`);
+    }
+  });
+
+/**
+ * Find a downloaded episode from command arguments or exit with an error
+ */
+function resolveLibraryEpisode(animeQuery: string, seasonArg: string, episodeArg: string): { anime: LibraryAnime; episode: LibraryEpisode } {
+  const seasonNumber = parsePositiveInt(seasonArg, 'Season');
+  const episodeNumber = parsePositiveInt(episodeArg, 'Episode');
+  
+  const anime = findLibraryAnime(getLibrary(), animeQuery);
+  if (!anime) fail(`Not in the library: ${animeQuery}`);
+  
+  const episode = anime.episodes.find(e => e.seasonNumber === seasonNumber && e.episodeNumber === episodeNumber);
+  if (!episode) fail(`S${seasonNumber}E${episodeNumber} of ${anime.title} has not been downloaded`);
+  
+  return { anime, episode };
+}
+
+libraryCommand
+  .command('play <anime> <season> <episode>')
+  .description('Play a downloaded episode, resuming where you left off, and save it to watch history')
+  .option('--start <seconds>', 'Start position in seconds (default: the saved position)')
+  .option('--json', 'Output the playback result as JSON')
+  .action(async (animeQuery: string, seasonArg: string, episodeArg: string, _options, command: Command) => {
+    const options = command.optsWithGlobals();
+    let startTime = options.start ? Number(options.start) : undefined;
+    if (startTime !== undefined && (!Number.isFinite(startTime) || startTime < 0)) {
+      fail(`Start position must be a number of seconds, got "${options.start}"`, EXIT_USAGE);
+    }
+    
+    const { anime, episode } = resolveLibraryEpisode(animeQuery, seasonArg, episodeArg);
+    if (startTime === undefined && anime.animeId) {
+      const entry = getAnimeWatchHistory(anime.animeId)
+        .find(item => item.seasonNumber === episode.seasonNumber && item.episodeNumber === episode.episodeNumber);
+      if (getEpisodeWatchStatus(entry) === 'in-progress') startTime = entry!.timePos;
+    }
+    
+    const playbackResult = await playLibraryEpisode(anime, episode, startTime);
+    
+    if (options.json) {
+      printJson({ anime: anime.title, seasonNumber: episode.seasonNumber, episodeNumber: episode.episodeNumber, filePath: episode.filePath, ...playbackResult });
+    }
+    
+    process.exit(0);
+  });
+
+libraryCommand
+  .command('delete <anime> <season> <episode>')
+  .description('Delete a downloaded episode and its subtitle and metadata files')
+  .action((animeQuery: string, seasonArg: string, episodeArg: string) => {
+    const { episode } = resolveLibraryEpisode(animeQuery, seasonArg, episodeArg);
+    if (!deleteLibraryEpisode(episode)) fail(`Could not delete ${episode.filePath}`);
+  });
+
+// Config management commands
+const configCommand = program
+  .command('config')
+  .description('View and change settings');
+
+configCommand
+  .command('list', { isDefault: true })
+  .description('List all settings')
+  .action(() => {
+    const config = getConfig();
+    console.log(`⚙️ Config file: ${getConfigPath()}\n`);
+    for (const key of getConfigKeys()) {
+      console.log(`${key} = ${config[key]}`);
+    }
+  });
+
+configCommand
+  .command('get <key>')
+  .description('Show the value of a setting')
+  .action((key: string) => {
+    const configKey = requireConfigKey(key);
+    console.log(String(getConfig()[configKey]));
+  });
+
+configCommand
+  .command('set <key> <value>')
+  .description('Change the value of a setting')
+  .action((key: string, value: string) => {
+    const configKey = requireConfigKey(key);
+    try {
+      const saved = setConfigValue(configKey, value);
+      console.log(`✅ ${configKey} = ${saved}`);
+    } catch (error) {
+      console.error(`❌ Invalid value for ${configKey}: ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+  });
+
+configCommand
+  .command('reset [key]')
+  .description('Reset one setting, or all settings, to the default')
+  .action((key?: string) => {
+    if (key) {
+      const configKey = requireConfigKey(key);
+      const config = resetConfig(configKey);
+      console.log(`✅ ${configKey} reset to ${config[configKey]}`);
+    } else {
+      resetConfig();
+      console.log('✅ All settings reset to defaults');
+    }
+  });
+
+configCommand
+  .command('edit')
+  .description('Open the config file in your editor')
+  .action(async () => {
+    const configPath = getConfigPath();
+    
+    // Make sure the file exists with every key present before editing; a broken file is opened as it is
+    try {
+      saveConfig(readConfigFile());
+    } catch {
+      console.error(`⚠️ ${configPath} is not valid JSON, opening it unchanged`);
+    }
+    
+    // $EDITOR may include arguments, e.g. "code --wait"
+    const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+    const [editorCommand, ...editorArgs] = splitCommandLine(editor);
+    try {
+      const result = await runProcess(editorCommand, [...editorArgs, configPath], { stdio: 'inherit' });
+      if (result.code !== 0) {
+        console.error(`❌ Editor ${formatExitStatus(result)}`);
+        process.exit(getExitCode(result));
+      }
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : error}`);
+      process.exit(EXIT_FAILURE);
+    }
+    
+    // Validate the edited file, then write back the normalized values. A file that can't be parsed
+    // is left as the user saved it rather than replaced with the defaults.
+    let edited: AppConfig;
+    try {
+      edited = readConfigFile();
+    } catch (error) {
+      fail(`Config not saved, ${configPath} is invalid: ${error instanceof Error ? error.message : String(error)}. Run "openanime config edit" again to fix it.`);
+    }
+    saveConfig(edited);
+    console.log(`✅ Config saved: ${configPath}`);
+  });
+
+// List available anime sources
+program
+  .command('sources')
+  .description('List available anime sources')
+  .action(() => {
+    const activeSource = getApiService().name;
+    for (const name of getApiServiceNames()) {
+      const service = getApiService(name);
+      console.log(`${name === activeSource ? '*' : ' '} ${name} (${service.displayName})`);
+    }
+  });
+
+/**
+ * Get a tracker name argument or exit with a usage error
+ */
+function requireTrackerName(name: string): TrackerName {
+  const normalized = name.toLowerCase();
+  if (!isTrackerName(normalized)) {
+    fail(`Unknown tracker: ${name} (available: ${getTrackerNames().join(', ')})`, EXIT_USAGE);
+  }
+  return normalized;
+}
+
+// Anime list tracker commands
+const trackerCommand = program
+  .command('tracker')
+  .description('Sync watched episodes to AniList or MyAnimeList');
+
+trackerCommand
+  .command('status', { isDefault: true })
+  .description('Show connected trackers and queued updates')
+  .option('--json', 'Output as JSON')
+  .action((_options, command: Command) => {
+    const options = command.optsWithGlobals();
+    const accounts = getTrackerAccounts();
+    const queue = getTrackerQueue();
+    
+    if (options.json) {
+      printJson({
+        enabled: getConfig().enableTrackerSync,
+        trackers: getTrackerNames().map(name => ({
+          name,
+          connected: Boolean(accounts[name]),
+          username: accounts[name]?.username,
+          expiresAt: accounts[name]?.expiresAt
+        })),
+        queue
+      });
+      return;
+    }
+    
+    for (const name of getTrackerNames()) {
+      const account = accounts[name];
+      const status = account ? `connected as ${account.username || 'unknown user'}` : 'not connected';
+      console.log(`${getTracker(name).displayName} (${name}): ${status}`);
+    }
+    if (!getConfig().enableTrackerSync) {
+      console.log('\n⚠️ Tracker sync is turned off (enableTrackerSync = false)');
+    }
+    if (queue.length > 0) {
+      console.log(`\n⏳ ${queue.length} queued update${queue.length === 1 ? '' : 's'}:`);
+      for (const item of queue) {
+        console.log(`  ${item.tracker}: ${item.title} episode ${item.episodeNumber} (${item.lastError || 'pending'})`);
+      }
+      console.log('Run "openanime tracker sync" to retry them.');
+    }
+  });
+
+trackerCommand
+  .command('login <tracker>')
+  .description('Connect an account: anilist or mal')
+  .option('--token <token>', 'Store an existing access token instead of logging in through the browser')
+  .action(async (name: string, options: { token?: string }) => {
+    const trackerName = requireTrackerName(name);
+    const tracker = getTracker(trackerName);
+    
+    try {
+      let account: TrackerAccount;
+      if (options.token) {
+        account = { accessToken: options.token, connectedAt: new Date().toISOString() };
+        account.username = await tracker.getUsername(account);
+      } else {
+        const login = tracker.startLogin();
+        console.log(`🔑 Open this URL to log in to ${tracker.displayName}:\n${login.url}\n`);
+        await open(login.url).catch(() => undefined);
+        
+        const response = await prompts({ type: 'text', name: 'input', message: login.instructions });
+        if (!response.input) fail('Login cancelled');
+        account = await login.complete(response.input);
+      }
+      
+      saveTrackerAccount(trackerName, account);
+      console.log(`✅ Connected to ${tracker.displayName} as ${account.username}`);
+    } catch (error) {
+      fail(`${tracker.displayName} login failed: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+
+trackerCommand
+  .command('logout <tracker>')
+  .description('Forget the stored account for a tracker')
+  .action((name: string) => {
+    const trackerName = requireTrackerName(name);
+    saveTrackerAccount(trackerName, null);
+    console.log(`✅ Logged out of ${getTracker(trackerName).displayName}`);
+  });
+
+trackerCommand
+  .command('sync')
+  .description('Retry updates that could not be sent earlier')
+  .action(async () => {
+    if (getTrackerQueue().length === 0) {
+      console.log('✅ Nothing to sync');
+      return;
+    }
+    
+    const { synced, failed } = await flushTrackerQueue();
+    for (const item of synced) {
+      console.log(`📈 ${getTracker(item.tracker).displayName}: ${item.title} episode ${item.episodeNumber}`);
+    }
+    for (const item of failed) {
+      console.log(`❌ ${item.tracker}: ${item.title} episode ${item.episodeNumber} - ${item.lastError || 'not logged in'}`);
+    }
+    console.log(`\nSynced ${synced.length}, ${failed.length} still queued`);
+    if (failed.length > 0) process.exit(EXIT_FAILURE);
+  });
+
+// Response cache commands
+const cacheCommand = program
+  .command('cache')
+  .description('Manage the response cache');
+
+cacheCommand
+  .command('info', { isDefault: true })
+  .description('Show cache size and location')
+  .action(() => {
+    const stats = getCacheStats();
+    console.log(`📦 Cache directory: ${stats.directory}`);
+    console.log(`Entries: ${stats.entries}`);
+    console.log(`Size: ${(stats.bytes / 1024).toFixed(1)} KB`);
+  });
+
+cacheCommand
+  .command('clear')
+  .description('Delete all cached responses')
+  .action(() => {
+    const removed = clearCache();
+    console.log(`🗑️ Removed ${removed} cached response${removed === 1 ? '' : 's'}`);
+  });
+
 // Parse arguments
 program.parse(process.argv);
 
@@ -666,6 +2466,8 @@ process.on('exit', () => {
 });
 
 process.on('SIGINT', () => {
+  // Ctrl+C is forwarded to a running player or editor; quit once it has exited
+  if (hasRunningProcesses()) return;
   discordRPC.disconnect();
   process.exit(0);
 });
@@ -2,11 +2,10 @@
  * API service for fetching anime data from streaming sites
  */
 
-import fetch from 'node-fetch';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { getConfig, parseQuality } from '../utils/config.js';
+import { HttpClient, HttpError } from './http.js';
+import { readCache, writeCache, isFresh, CacheEntry } from '../utils/cacheUtils.js';
+import { isHlsUrl, getHlsVariants } from './hls.js';
 
 export interface AnimeResult {
   id: string;
@@ -52,12 +51,30 @@ export interface Episode {
   url: string;
   seasonNumber: number;
   episodeNumber: number;
+  // Filled in from the episode details when they could be fetched
+  summary?: string;
+  airDate?: string;
+  available?: boolean; // false while the episode is still processing
+  hasNextEpisode?: boolean;
 }
 
 export interface StreamUrl {
   url: string;
   quality: string;
   type: 'm3u8' | 'mp4' | 'other';
+  resolution?: number;
+  bandwidth?: number;
+  size?: number; // bytes, when known
+  fansubId?: string;
+  fansubName?: string;
+  subtitles?: SubtitleTrack[]; // external subtitle files published with the stream
+}
+
+export interface SubtitleTrack {
+  url: string;
+  language: string; // lowercase code like "tr" or "en"; "und" when unknown
+  format: 'ass' | 'srt' | 'vtt';
+  label?: string;
 }
 
 export interface EpisodeDetail {
@@ -92,6 +109,12 @@ export interface EpisodeDetail {
       size: number;
       file: string;
     }>;
+    // Separate subtitle files some fansubs publish instead of (or besides) hardsubs
+    subtitles?: Array<{
+      file: string;
+      language?: string;
+      name?: string;
+    }>;
     hasNextEpisode: boolean;
     hasPrevEpisode: boolean;
     name: string;
@@ -115,30 +138,244 @@ export interface EpisodeDetail {
   }>;
 }
 
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isId = (value: unknown): boolean =>
+  typeof value === 'string' || typeof value === 'number';
+
+/**
+ * Runtime check for a search result
+ */
+export function isAnimeResult(value: unknown): value is AnimeResult {
+  return isObject(value) && isId(value.id) && typeof value.slug === 'string';
+}
+
+/**
+ * Runtime check for anime details
+ */
+export function isAnimeDetail(value: unknown): value is AnimeDetail {
+  return isObject(value)
+    && isAnimeResult(value)
+    && Array.isArray(value.seasons)
+    && (value.seasons as unknown[]).every(season =>
+      isObject(season) && typeof season.season_number === 'number' && typeof season.episode_count === 'number'
+    );
+}
+
+/**
+ * Runtime check for episode details
+ */
+export function isEpisodeDetail(value: unknown): value is EpisodeDetail {
+  if (!isObject(value) || !isObject(value.animeMeta) || !Array.isArray(value.fansubs)) return false;
+  
+  const episodeData = value.episodeData;
+  return isObject(episodeData)
+    && isObject(episodeData.fansub)
+    && Array.isArray(episodeData.resolutions)
+    && Array.isArray(episodeData.files)
+    && (episodeData.files as unknown[]).every(file => isObject(file) && typeof file.resolution === 'number')
+    && (episodeData.subtitles === undefined
+      || (Array.isArray(episodeData.subtitles) && episodeData.subtitles.every(sub => isObject(sub) && typeof sub.file === 'string')));
+}
+
+const isAnimeResultList = (value: unknown): value is AnimeResult[] =>
+  Array.isArray(value) && value.every(isAnimeResult);
+
+let apiClient: HttpClient | null = null;
+let apiClientBaseUrl = '';
+
+/**
+ * Get the shared HTTP client for the OpenAnime API.
+ * The base URL comes from OPENANIME_API_URL or the apiBaseUrl config key.
+ */
+export function getApiClient(): HttpClient {
+  const baseUrl = process.env.OPENANIME_API_URL || getConfig().apiBaseUrl;
+  if (!apiClient || apiClientBaseUrl !== baseUrl) {
+    apiClient = new HttpClient({ baseUrl });
+    apiClientBaseUrl = baseUrl;
+  }
+  return apiClient;
+}
+
+/**
+ * How cached responses are used:
+ * - default: serve fresh disk cache entries, refetch stale ones
+ * - refresh: ignore existing disk cache entries but store new responses
+ * - disabled: never read or write the disk cache
+ * Responses are always shared in memory for the rest of the session.
+ */
+export type CacheMode = 'default' | 'refresh' | 'disabled';
+
+/**
+ * How long each endpoint's responses stay fresh
+ */
+export const CACHE_TTL = {
+  search: 10 * 60 * 1000,
+  animeDetail: 60 * 60 * 1000,
+  episodeDetail: 30 * 60 * 1000
+};
+
+let cacheMode: CacheMode = 'default';
+const memoryCache = new Map<string, CacheEntry<unknown>>();
+const inFlightRequests = new Map<string, Promise<unknown>>();
+
+/**
+ * Set how the on-disk response cache is used
+ */
+export function setCacheMode(mode: CacheMode): void {
+  cacheMode = mode;
+}
+
+/**
+ * Fetch through the cache, keyed by request URL: in-memory entries and in-flight requests are shared,
+ * disk entries are used while fresh, and stale entries are served if the fetch fails
+ */
+async function cachedFetch<T>(key: string, ttlMs: number, fetcher: () => Promise<T>): Promise<T> {
+  const memoryEntry = memoryCache.get(key) as CacheEntry<T> | undefined;
+  if (memoryEntry && isFresh(memoryEntry, ttlMs)) {
+    return memoryEntry.data;
+  }
+  
+  const diskEntry = cacheMode === 'disabled' ? null : readCache<T>(key);
+  if (cacheMode === 'default' && diskEntry && isFresh(diskEntry, ttlMs)) {
+    memoryCache.set(key, diskEntry);
+    return diskEntry.data;
+  }
+  
+  const pending = inFlightRequests.get(key) as Promise<T> | undefined;
+  if (pending) return pending;
+  
+  const request = (async () => {
+    try {
+      const data = await fetcher();
+      const entry = cacheMode === 'disabled' ? { key, storedAt: Date.now(), data } : writeCache(key, data);
+      memoryCache.set(key, entry);
+      return data;
+    } catch (error) {
+      // Client errors mean the resource is gone, so only serve stale data for network and server failures
+      const staleEntry = memoryEntry || diskEntry;
+      const isClientError = error instanceof HttpError && error.status < 500;
+      if (staleEntry && !isClientError) {
+        console.log(`⚠️ Using cached data from ${new Date(staleEntry.storedAt).toLocaleString()} (${describeError(error)})`);
+        return staleEntry.data;
+      }
+      throw error;
+    } finally {
+      inFlightRequests.delete(key);
+    }
+  })();
+  
+  inFlightRequests.set(key, request);
+  return request;
+}
+
+/**
+ * Fetch episode details through the cache, throwing on failure
+ */
+function fetchEpisodeDetail(slug: string, seasonNumber: number, episodeNumber: number, fansubId?: string): Promise<EpisodeDetail> {
+  const client = getApiClient();
+  const pathname = `anime/${encodeURIComponent(slug)}/season/${seasonNumber}/episode/${episodeNumber}`;
+  const params = { fansub: fansubId };
+  return cachedFetch(client.buildUrl(pathname, params), CACHE_TTL.episodeDetail, () =>
+    client.getJson(pathname, { query: params, validate: isEpisodeDetail })
+  );
+}
+
+// How many episode details are fetched at once when listing a season
+const EPISODE_DETAIL_CONCURRENCY = 4;
+
 /**
- * Base API service class
+ * Map items through an async function with at most `concurrency` calls in flight, keeping order
+ */
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Format an API error for logging
+ */
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Base API service class.
+ * Each anime source implements this and is registered by name with registerApiService().
  */
 export abstract class BaseApiService {
+  abstract readonly name: string;
+  abstract readonly displayName: string;
   abstract search(query: string): Promise<AnimeResult[]>;
-  abstract getEpisodes(animeId: string): Promise<Episode[]>;
-  abstract getStreamUrl(episodeUrl: string): Promise<StreamUrl[]>;
+  abstract getAnimeDetail(slug: string): Promise<AnimeDetail | null>;
+  abstract getEpisodes(animeId: string, seasonNumber?: number): Promise<Episode[]>;
+  abstract getEpisodeDetail(slug: string, seasonNumber: number, episodeNumber: number, fansubId?: string): Promise<EpisodeDetail | null>;
+  abstract getVideoStream(slug: string, seasonNumber: number, episodeNumber: number, fansubId?: string, quality?: string): Promise<StreamUrl | null>;
+  abstract getStreamUrl(episodeUrl: string, fansubId?: string): Promise<StreamUrl[]>;
+
+  /**
+   * Fill in details like real titles for episodes that are displayed or saved to history.
+   * getEpisodes() may return placeholders so looking up an episode stays cheap; sources whose
+   * episode lists are complete can keep this default.
+   */
+  async fillEpisodeDetails(_slug: string, episodes: Episode[]): Promise<Episode[]> {
+    return episodes;
+  }
+
+  async getVideoUrl(slug: string, seasonNumber: number, episodeNumber: number, fansubId?: string, quality?: string): Promise<string | null> {
+    const stream = await this.getVideoStream(slug, seasonNumber, episodeNumber, fansubId, quality);
+    return stream ? stream.url : null;
+  }
+
+  /**
+   * Get the episode after the given one, moving on to the first episode of the next season
+   * with episodes when the season is over. Returns null at the end of the series.
+   */
+  async getNextEpisode(slug: string, seasonNumber: number, episodeNumber: number): Promise<Episode | null> {
+    const episodes = await this.getEpisodes(slug, seasonNumber);
+    const nextInSeason = episodes.find(e => e.episodeNumber === episodeNumber + 1);
+    if (nextInSeason) return (await this.fillEpisodeDetails(slug, [nextInSeason]))[0];
+
+    const animeDetail = await this.getAnimeDetail(slug);
+    if (!animeDetail) return null;
+
+    const laterSeasons = animeDetail.seasons
+      .filter(season => season.season_number > seasonNumber && season.hasEpisode && season.episode_count > 0)
+      .sort((a, b) => a.season_number - b.season_number);
+
+    for (const season of laterSeasons) {
+      const seasonEpisodes = await this.getEpisodes(slug, season.season_number);
+      if (seasonEpisodes.length > 0) return (await this.fillEpisodeDetails(slug, [seasonEpisodes[0]]))[0];
+    }
+    return null;
+  }
 }
 
 /**
- * Search for anime across all available services
+ * Search for anime on OpenAnime
  */
 export async function searchAnime(query: string): Promise<AnimeResult[]> {
   try {
-    // Use curl as fallback since node-fetch might have issues with this API
-    const encodedQuery = encodeURIComponent(query);
-    const curlCommand = `curl -s -H "User-Agent: Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" "https://api.openani.me/anime/search?q=${encodedQuery}"`;
-    
-    const { stdout } = await execAsync(curlCommand);
-    const data = JSON.parse(stdout) as AnimeResult[];
-    
-    return data;
+    const client = getApiClient();
+    const params = { q: query };
+    return await cachedFetch(client.buildUrl('anime/search', params), CACHE_TTL.search, () =>
+      client.getJson('anime/search', { query: params, validate: isAnimeResultList })
+    );
   } catch (error) {
-    console.error('Error searching anime:', error);
+    console.error('Error searching anime:', describeError(error));
     return [];
   }
 }
@@ -148,20 +385,20 @@ export async function searchAnime(query: string): Promise<AnimeResult[]> {
  */
 export async function getAnimeDetail(slug: string): Promise<AnimeDetail | null> {
   try {
-    const curlCommand = `curl -s -H "User-Agent: Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" "https://api.openani.me/anime/${slug}"`;
-    
-    const { stdout } = await execAsync(curlCommand);
-    const data = JSON.parse(stdout) as AnimeDetail;
-    
-    return data;
+    const client = getApiClient();
+    const pathname = `anime/${encodeURIComponent(slug)}`;
+    return await cachedFetch(client.buildUrl(pathname), CACHE_TTL.animeDetail, () =>
+      client.getJson(pathname, { validate: isAnimeDetail })
+    );
   } catch (error) {
-    console.error('Error getting anime detail:', error);
+    console.error('Error getting anime detail:', describeError(error));
     return null;
   }
 }
 
 /**
- * Get episodes for a specific anime season
+ * Get episodes for a specific anime season. Only the anime details are fetched, so titles are
+ * placeholders like "Episode 3"; use fillEpisodeDetails() for episodes that are displayed.
  */
 export async function getAnimeEpisodes(slug: string, seasonNumber: number): Promise<Episode[]> {
   try {
@@ -171,18 +408,13 @@ export async function getAnimeEpisodes(slug: string, seasonNumber: number): Prom
     const season = animeDetail.seasons.find(s => s.season_number === seasonNumber);
     if (!season || !season.hasEpisode) return [];
     
-    const episodes: Episode[] = [];
-    for (let i = 1; i <= season.episode_count; i++) {
-      episodes.push({
-        title: `Episode ${i}`,
-        number: i,
-        url: `https://openani.me/anime/${slug}/${seasonNumber}/${i}`,
-        seasonNumber: seasonNumber,
-        episodeNumber: i
-      });
-    }
-    
-    return episodes;
+    return Array.from({ length: season.episode_count }, (_, i) => ({
+      title: `Episode ${i + 1}`,
+      number: i + 1,
+      url: `https://openani.me/anime/${slug}/${seasonNumber}/${i + 1}`,
+      seasonNumber: seasonNumber,
+      episodeNumber: i + 1
+    }));
   } catch (error) {
     console.error('Error getting episodes:', error);
     return [];
@@ -190,66 +422,373 @@ export async function getAnimeEpisodes(slug: string, seasonNumber: number): Prom
 }
 
 /**
- * Get stream URL for a specific episode
+ * Fill in the real titles, summaries, air dates and availability from the (cached) episode details.
+ * Episodes whose details can't be fetched keep their placeholder title.
  */
-export async function getEpisodeStreamUrl(episodeUrl: string): Promise<StreamUrl[]> {
-  // TODO: Implement stream URL extraction
-  console.log(`Getting stream URL for: ${episodeUrl}`);
-  return [];
+export async function fillEpisodeDetails(slug: string, episodes: Episode[]): Promise<Episode[]> {
+  return mapWithConcurrency(episodes, EPISODE_DETAIL_CONCURRENCY, async (listed) => {
+    const episode: Episode = { ...listed };
+    
+    try {
+      const { episodeData } = await fetchEpisodeDetail(slug, episode.seasonNumber, episode.episodeNumber);
+      if (typeof episodeData.name === 'string' && episodeData.name.trim()) episode.title = episodeData.name.trim();
+      if (typeof episodeData.summary === 'string' && episodeData.summary) episode.summary = episodeData.summary;
+      if (typeof episodeData.airDate === 'string' && episodeData.airDate) episode.airDate = episodeData.airDate;
+      episode.available = !episodeData.processing;
+      episode.hasNextEpisode = episodeData.hasNextEpisode;
+    } catch {
+      // Keep the placeholder
+    }
+    
+    return episode;
+  });
 }
 
 /**
- * Get episode details including fansubs and video files
+ * Get every playable stream for an episode URL like https://openani.me/anime/{slug}/{season}/{episode}.
+ * Streams are listed for each fansub (or only the given one) and each resolution; HLS master
+ * playlists are expanded into their variants.
  */
-export async function getEpisodeDetail(slug: string, seasonNumber: number, episodeNumber: number): Promise<EpisodeDetail | null> {
+export async function getEpisodeStreamUrl(episodeUrl: string, fansubId?: string): Promise<StreamUrl[]> {
   try {
-    const curlCommand = `curl -s -H "User-Agent: Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" "https://api.openani.me/anime/${slug}/season/${seasonNumber}/episode/${episodeNumber}"`;
+    const match = episodeUrl.match(/anime\/([^/?#]+)\/(\d+)\/(\d+)/);
+    if (!match) {
+      console.error(`❌ Not an episode URL: ${episodeUrl}`);
+      return [];
+    }
+    
+    const slug = decodeURIComponent(match[1]);
+    const seasonNumber = parseInt(match[2], 10);
+    const episodeNumber = parseInt(match[3], 10);
     
-    const { stdout } = await execAsync(curlCommand);
-    const data = JSON.parse(stdout) as EpisodeDetail;
+    const episodeDetail = await getEpisodeDetail(slug, seasonNumber, episodeNumber);
+    if (!episodeDetail) return [];
     
-    return data;
+    const fansubIds = fansubId
+      ? [fansubId]
+      : episodeDetail.fansubs.length > 0
+        ? episodeDetail.fansubs.map(f => f.id)
+        : [episodeDetail.episodeData.fansub.id];
+    
+    const streams: StreamUrl[] = [];
+    for (const id of fansubIds) {
+      const fansubDetail = await getEpisodeDetail(slug, seasonNumber, episodeNumber, id);
+      // Skip fansubs that haven't released (or finished processing) this episode
+      if (!fansubDetail || fansubDetail.episodeData.fansub.id !== id || fansubDetail.episodeData.processing) continue;
+      
+      streams.push(...await getEpisodeStreams(slug, seasonNumber, episodeNumber, fansubDetail.episodeData));
+    }
+    
+    return streams;
+  } catch (error) {
+    console.error('Error getting stream URLs:', error);
+    return [];
+  }
+}
+
+/**
+ * Get episode details including fansubs and video files.
+ * When fansubId is given, episodeData (files, resolutions, processing) belongs to that fansub.
+ */
+export async function getEpisodeDetail(slug: string, seasonNumber: number, episodeNumber: number, fansubId?: string): Promise<EpisodeDetail | null> {
+  try {
+    return await fetchEpisodeDetail(slug, seasonNumber, episodeNumber, fansubId);
   } catch (error) {
-    console.error('Error getting episode detail:', error);
+    console.error('Error getting episode detail:', describeError(error));
     return null;
   }
 }
 
+export type VideoFile = EpisodeDetail['episodeData']['files'][number];
+
+/**
+ * Pick the video file (or stream) closest to the preferred quality.
+ * Exact matches win; otherwise the nearest resolution is used, preferring the lower one on ties.
+ */
+export function selectVideoFile<T extends { resolution: number }>(files: T[], quality?: string): T | null {
+  if (files.length === 0) return null;
+  
+  // Sort by resolution (highest first) without mutating the API data
+  const sortedFiles = [...files].sort((a, b) => b.resolution - a.resolution);
+  const target = quality ? parseQuality(quality) : 'best';
+  
+  if (target === null || target === 'best') return sortedFiles[0];
+  if (target === 'worst') return sortedFiles[sortedFiles.length - 1];
+  
+  return sortedFiles.reduce((closest, file) => {
+    const diff = Math.abs(file.resolution - target);
+    const closestDiff = Math.abs(closest.resolution - target);
+    if (diff < closestDiff || (diff === closestDiff && file.resolution < closest.resolution)) {
+      return file;
+    }
+    return closest;
+  });
+}
+
+/**
+ * Pick the stream closest to the preferred quality, optionally preferring a stream type
+ */
+export function selectStream(streams: StreamUrl[], quality?: string, preferredType?: StreamUrl['type']): StreamUrl | null {
+  const preferred = preferredType ? streams.filter(s => s.type === preferredType) : [];
+  const candidates = (preferred.length > 0 ? preferred : streams)
+    .map(stream => ({ ...stream, resolution: stream.resolution ?? (parseInt(stream.quality, 10) || 0) }));
+  return selectVideoFile(candidates, quality);
+}
+
+/**
+ * Resolve a single URL from a URL or a list of streams, using the quality option to pick a stream
+ */
+export function resolveStreamSource(source: string | StreamUrl[], quality?: string, preferredType?: StreamUrl['type']): string | null {
+  if (typeof source === 'string') return source;
+  return selectStream(source, quality, preferredType)?.url || null;
+}
+
+const VIDEO_CDN_URL = 'https://do7---ha-k8y3jyfa-8gcx.zyapbot.eu.org';
+
+/**
+ * Build the URL of a video file.
+ * MP4 files follow the pattern {cdn}/animes/{slug}/{season}/{episode}-{fansubId}-{resolution}p.mp4?big=1;
+ * absolute file URLs and HLS playlists are used as given (relative to the season folder).
+ */
+function buildFileUrl(slug: string, seasonNumber: number, episodeNumber: number, fansubId: string, file: VideoFile): string {
+  if (/^https?:\/\//.test(file.file)) return file.file;
+  if (isHlsUrl(file.file)) return `${VIDEO_CDN_URL}/animes/${slug}/${seasonNumber}/${file.file.replace(/^\/+/, '')}`;
+  return `${VIDEO_CDN_URL}/animes/${slug}/${seasonNumber}/${episodeNumber}-${fansubId}-${file.resolution}p.mp4?big=1`;
+}
+
+/**
+ * List the external subtitle tracks of one fansub's episode data.
+ * Relative subtitle paths are resolved against the season folder, like HLS playlists.
+ */
+export function getSubtitleTracks(slug: string, seasonNumber: number, episodeData: EpisodeDetail['episodeData']): SubtitleTrack[] {
+  const tracks: SubtitleTrack[] = [];
+  
+  for (const subtitle of episodeData.subtitles || []) {
+    const url = /^https?:\/\//.test(subtitle.file)
+      ? subtitle.file
+      : `${VIDEO_CDN_URL}/animes/${slug}/${seasonNumber}/${subtitle.file.replace(/^\/+/, '')}`;
+    const extension = new URL(url).pathname.split('.').pop()?.toLowerCase();
+    if (extension !== 'ass' && extension !== 'srt' && extension !== 'vtt') continue;
+    
+    tracks.push({
+      url,
+      language: subtitle.language?.trim().toLowerCase() || 'und',
+      format: extension,
+      ...(subtitle.name ? { label: subtitle.name } : {})
+    });
+  }
+  
+  return tracks;
+}
+
+/**
+ * List the streams of one fansub's episode data, expanding HLS master playlists into variants
+ */
+async function getEpisodeStreams(slug: string, seasonNumber: number, episodeNumber: number, episodeData: EpisodeDetail['episodeData']): Promise<StreamUrl[]> {
+  const subtitles = getSubtitleTracks(slug, seasonNumber, episodeData);
+  const fansub = {
+    fansubId: episodeData.fansub.id,
+    fansubName: episodeData.fansub.name,
+    ...(subtitles.length > 0 ? { subtitles } : {})
+  };
+  const streams: StreamUrl[] = [];
+  
+  for (const file of episodeData.files) {
+    const url = buildFileUrl(slug, seasonNumber, episodeNumber, fansub.fansubId, file);
+    
+    if (!isHlsUrl(url)) {
+      streams.push({ url, quality: `${file.resolution}p`, type: 'mp4', resolution: file.resolution, size: file.size || undefined, ...fansub });
+      continue;
+    }
+    
+    try {
+      const variants = await getHlsVariants(url);
+      if (variants.length > 0) {
+        for (const variant of variants) {
+          const resolution = variant.height || file.resolution;
+          streams.push({ url: variant.url, quality: `${resolution}p`, type: 'm3u8', resolution, bandwidth: variant.bandwidth, ...fansub });
+        }
+        continue;
+      }
+    } catch (error) {
+      console.error(`⚠️ Could not read HLS playlist ${url}:`, describeError(error));
+    }
+    
+    // Media playlist (or unreadable master) - play it as a single stream
+    streams.push({ url, quality: `${file.resolution}p`, type: 'm3u8', resolution: file.resolution, ...fansub });
+  }
+  
+  return streams;
+}
+
 /**
- * Get direct video URL for streaming
+ * Get the stream to play or download for an episode.
+ * If both fansubId and quality are given, the fansub must have a file at exactly that quality;
+ * otherwise the nearest resolution to the preferred quality is used.
  */
-export async function getVideoUrl(slug: string, seasonNumber: number, episodeNumber: number, fansubId?: string): Promise<string | null> {
+export async function getVideoStream(slug: string, seasonNumber: number, episodeNumber: number, fansubId?: string, quality?: string): Promise<StreamUrl | null> {
   try {
-    const episodeDetail = await getEpisodeDetail(slug, seasonNumber, episodeNumber);
+    // Fetch the episode for the selected fansub so its own files are used
+    const episodeDetail = await getEpisodeDetail(slug, seasonNumber, episodeNumber, fansubId);
     if (!episodeDetail) return null;
     
-    // If fansubId is provided, try to get episode with that specific fansub
-    let targetFansubId = episodeDetail.episodeData.fansub.id;
-    if (fansubId) {
-      const fansub = episodeDetail.fansubs.find(f => f.id === fansubId);
-      if (fansub) {
-        targetFansubId = fansubId;
-        // Try to get episode detail with specific fansub
-        // For now, we'll construct the URL manually since the API might return different data
-      }
+    const episodeData = episodeDetail.episodeData;
+    const fansubName = episodeData.fansub.name;
+    
+    if (fansubId && episodeData.fansub.id !== fansubId) {
+      const requestedFansub = episodeDetail.fansubs.find(f => f.id === fansubId);
+      console.error(`❌ Fansub ${requestedFansub?.name || fansubId} is not available for S${seasonNumber}E${episodeNumber}`);
+      return null;
+    }
+    
+    if (episodeData.processing) {
+      console.error(`❌ S${seasonNumber}E${episodeNumber} is still being processed by ${fansubName}. Try again later.`);
+      return null;
     }
     
-    // Get the highest quality video file
-    const files = episodeDetail.episodeData.files;
-    if (files.length === 0) return null;
+    const streams = await getEpisodeStreams(slug, seasonNumber, episodeNumber, episodeData);
+    const availableQualities = Array.from(new Set(streams.map(s => s.quality))).join(', ') || 'none';
     
-    // Sort by resolution (highest first)
-    const sortedFiles = files.sort((a, b) => b.resolution - a.resolution);
-    const bestFile = sortedFiles[0];
+    // An explicitly requested quality must exist for an explicitly chosen fansub
+    const requestedResolution = quality ? parseQuality(quality) : null;
+    if (fansubId && typeof requestedResolution === 'number' && !streams.some(s => s.resolution === requestedResolution)) {
+      console.error(`❌ ${fansubName} has no ${requestedResolution}p file for S${seasonNumber}E${episodeNumber} (available: ${availableQualities})`);
+      return null;
+    }
+    
+    // Pick the stream matching the requested quality, falling back to the configured default
+    const preferredQuality = quality || getConfig().defaultQuality;
+    const selectedStream = selectStream(streams, preferredQuality);
+    if (!selectedStream) {
+      console.error(`❌ ${fansubName} has no video files for S${seasonNumber}E${episodeNumber}`);
+      return null;
+    }
     
-    // Construct the full video URL based on the pattern:
-    // https://do7---ha-k8y3jyfa-8gcx.zyapbot.eu.org/animes/{slug}/{season}/{episode}-{fansubId}-{resolution}p.mp4?big=1
-    const baseUrl = "https://do7---ha-k8y3jyfa-8gcx.zyapbot.eu.org";
-    const videoUrl = `${baseUrl}/animes/${slug}/${seasonNumber}/${episodeNumber}-${targetFansubId}-${bestFile.resolution}p.mp4?big=1`;
+    const targetResolution = parseQuality(preferredQuality);
+    if (typeof targetResolution === 'number' && selectedStream.resolution !== targetResolution) {
+      console.log(`⚠️ ${preferredQuality} not available, using ${selectedStream.quality}`);
+    }
     
-    return videoUrl;
+    return selectedStream;
   } catch (error) {
     console.error('Error getting video URL:', error);
     return null;
   }
 }
+
+/**
+ * Get direct video URL for streaming (see getVideoStream)
+ */
+export async function getVideoUrl(slug: string, seasonNumber: number, episodeNumber: number, fansubId?: string, quality?: string): Promise<string | null> {
+  const stream = await getVideoStream(slug, seasonNumber, episodeNumber, fansubId, quality);
+  return stream ? stream.url : null;
+}
+
+/**
+ * OpenAnime (openani.me) source
+ */
+export class OpenAnimeService extends BaseApiService {
+  readonly name = 'openanime';
+  readonly displayName = 'OpenAnime';
+
+  search(query: string): Promise<AnimeResult[]> {
+    return searchAnime(query);
+  }
+
+  getAnimeDetail(slug: string): Promise<AnimeDetail | null> {
+    return getAnimeDetail(slug);
+  }
+
+  async getEpisodes(animeId: string, seasonNumber?: number): Promise<Episode[]> {
+    if (seasonNumber !== undefined) {
+      return getAnimeEpisodes(animeId, seasonNumber);
+    }
+    
+    // No season given - list every season's episodes in order
+    const animeDetail = await getAnimeDetail(animeId);
+    if (!animeDetail) return [];
+    
+    const episodes: Episode[] = [];
+    for (const season of animeDetail.seasons) {
+      episodes.push(...await getAnimeEpisodes(animeId, season.season_number));
+    }
+    return episodes;
+  }
+
+  fillEpisodeDetails(slug: string, episodes: Episode[]): Promise<Episode[]> {
+    return fillEpisodeDetails(slug, episodes);
+  }
+
+  getEpisodeDetail(slug: string, seasonNumber: number, episodeNumber: number, fansubId?: string): Promise<EpisodeDetail | null> {
+    return getEpisodeDetail(slug, seasonNumber, episodeNumber, fansubId);
+  }
+
+  getVideoStream(slug: string, seasonNumber: number, episodeNumber: number, fansubId?: string, quality?: string): Promise<StreamUrl | null> {
+    return getVideoStream(slug, seasonNumber, episodeNumber, fansubId, quality);
+  }
+
+  getStreamUrl(episodeUrl: string, fansubId?: string): Promise<StreamUrl[]> {
+    return getEpisodeStreamUrl(episodeUrl, fansubId);
+  }
+}
+
+export type ApiServiceFactory = () => BaseApiService;
+
+const apiServiceFactories = new Map<string, ApiServiceFactory>();
+const apiServiceInstances = new Map<string, BaseApiService>();
+let activeSource: string | null = null;
+
+/**
+ * Register an anime source under a name so it can be selected with --source or the source config key
+ */
+export function registerApiService(name: string, factory: ApiServiceFactory): void {
+  const key = name.toLowerCase();
+  apiServiceFactories.set(key, factory);
+  apiServiceInstances.delete(key);
+}
+
+/**
+ * Get the names of all registered sources
+ */
+export function getApiServiceNames(): string[] {
+  return Array.from(apiServiceFactories.keys());
+}
+
+/**
+ * Check whether a source is registered
+ */
+export function hasApiService(name: string): boolean {
+  return apiServiceFactories.has(name.toLowerCase());
+}
+
+/**
+ * Select the source used by getApiService() for the rest of the session
+ */
+export function setActiveSource(name: string): void {
+  if (!hasApiService(name)) {
+    throw new Error(`Unknown source "${name}". Available sources: ${getApiServiceNames().join(', ')}`);
+  }
+  activeSource = name.toLowerCase();
+}
+
+/**
+ * Get a source by name, defaulting to the active source or the source config key
+ */
+export function getApiService(name?: string): BaseApiService {
+  const key = (name || activeSource || getConfig().source).toLowerCase();
+  
+  let service = apiServiceInstances.get(key);
+  if (!service) {
+    const factory = apiServiceFactories.get(key);
+    if (!factory) {
+      throw new Error(`Unknown source "${key}". Available sources: ${getApiServiceNames().join(', ')}`);
+    }
+    service = factory();
+    apiServiceInstances.set(key, service);
+  }
+  
+  return service;
+}
+
+// Built-in sources
+registerApiService('openanime', () => new OpenAnimeService());
@@ -2,60 +2,246 @@
  * Download service for saving episodes locally
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import fetch from 'node-fetch';
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import { sanitizeFilename, ensureDir, getAppDataDir } from '../utils/fileUtils.js';
+import { pipeline } from 'stream/promises';
+import { Transform } from 'stream';
+import { ensureDir, getAppDataDir } from '../utils/fileUtils.js';
+import { renderDownloadTemplate } from '../utils/downloadTemplate.js';
+import { StreamUrl, SubtitleTrack, selectStream } from './api.js';
+import { DEFAULT_USER_AGENT, HttpError, TimeoutError } from './http.js';
+import { downloadSubtitleFiles, findSidecarSubtitles } from './subtitles.js';
+import { writeEpisodeNfo, writeShowFiles, isShowMetadataFile, EPISODE_NFO_EXTENSION, MediaInfo } from './mediaExport.js';
+import { getConfig } from '../utils/config.js';
 
-const execAsync = promisify(exec);
+export interface DownloadProgress {
+  downloadedBytes: number;
+  totalBytes?: number;
+  percent?: number;
+  bytesPerSecond: number;
+}
+
+/**
+ * What a download is named after (see the downloadFolderTemplate and downloadFileTemplate config).
+ * The fansub and quality default to the selected stream's.
+ */
+export interface DownloadNaming {
+  animeTitle: string;
+  animeRomaji?: string;
+  animeSlug?: string;
+  seasonNumber: number;
+  episodeNumber: number;
+  episodeTitle: string;
+  fansubName?: string;
+  quality?: string;
+}
 
 export interface DownloadOptions {
   quality?: string;
-  outputDir?: string;
-  filename?: string;
-  onProgress?: (progress: string) => void;
+  outputDir?: string; // replaces downloadPath
+  filename?: string; // replaces the file template, including the extension
+  expectedSize?: number; // bytes, e.g. files[].size from EpisodeDetail
+  subtitles?: SubtitleTrack[]; // defaults to the selected stream's subtitle tracks
+  metadata?: Omit<DownloadMetadata, 'version' | 'downloadedAt'>; // saved next to the video
+  mediaInfo?: MediaInfo; // for .nfo files and artwork, when writeNfoFiles is on
+  onProgress?: (progress: DownloadProgress) => void;
+  quiet?: boolean; // Only report progress through onProgress
+}
+
+/**
+ * Sidecar file that maps a downloaded video back to its anime, episode and fansub,
+ * so the offline library can resume it and record watch history without the API
+ */
+export interface DownloadMetadata {
+  version: number;
+  source: string;
+  animeId: string;
+  animeSlug: string;
+  animeTitle: string;
+  seasonNumber: number;
+  episodeNumber: number;
+  episodeTitle: string;
+  fansubId: string;
+  fansubName: string;
+  quality: string;
+  malId?: number; // MyAnimeList id of the season, for tracker sync
+  downloadedAt: string; // ISO date
+}
+
+const DOWNLOAD_METADATA_VERSION = 1;
+const METADATA_EXTENSION = '.openanime.json';
+const PART_EXTENSION = '.part';
+const MAX_ATTEMPTS = 4;
+const PROGRESS_INTERVAL_MS = 250;
+const STALL_TIMEOUT_MS = 30000; // give up on a connection (and resume) after this long without data
+
+/**
+ * Get the directory downloads are saved to: the downloadPath config, where relative paths
+ * (like the default ./downloads) are inside the app data folder and ~ is the home folder
+ */
+export function getDownloadDir(): string {
+  const downloadPath = getConfig().downloadPath.replace(/^~(?=$|[\\/])/, os.homedir());
+  return path.resolve(getAppDataDir(), downloadPath);
+}
+
+/**
+ * Get the path an episode will be downloaded to, from the download templates
+ */
+export function getDownloadFilePath(naming: DownloadNaming, options: DownloadOptions = {}): string {
+  const { downloadDir, folders, filename } = resolveDownloadPath(naming, options);
+  return path.join(downloadDir, ...folders, filename);
+}
+
+/**
+ * Render the download templates into the download folder, the folders inside it and the file name
+ */
+function resolveDownloadPath(naming: DownloadNaming, options: DownloadOptions): { downloadDir: string; folders: string[]; filename: string } {
+  const config = getConfig();
+  const values = {
+    title: naming.animeTitle,
+    romaji: naming.animeRomaji || naming.animeTitle,
+    slug: naming.animeSlug || naming.animeTitle,
+    season: naming.seasonNumber,
+    episode: naming.episodeNumber,
+    episodeTitle: naming.episodeTitle,
+    fansub: naming.fansubName || 'Unknown',
+    resolution: naming.quality || options.quality || config.defaultQuality
+  };
+  
+  const folders = renderDownloadTemplate(config.downloadFolderTemplate, values);
+  const name = renderDownloadTemplate(config.downloadFileTemplate, values).join(' ') || `S${naming.seasonNumber}E${naming.episodeNumber}`;
+  return { downloadDir: options.outputDir || getDownloadDir(), folders, filename: options.filename || `${name}.mp4` };
+}
+
+/**
+ * Format a byte count as megabytes
+ */
+function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Get the size of a file, or 0 if it doesn't exist
+ */
+function getFileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Check whether a downloaded file is complete. Without a known size, only a file with a metadata sidecar
+ * counts (it is written once the download finishes); others may have been cut short by an older downloader.
+ */
+export function isDownloadComplete(filePath: string, expectedSize?: number): boolean {
+  if (!fs.existsSync(filePath)) return false;
+  return expectedSize ? getFileSize(filePath) === expectedSize : readDownloadMetadata(filePath) !== null;
 }
 
 /**
- * Download video using yt-dlp or curl
+ * Download video with the built-in HTTP downloader.
+ * Accepts a direct URL or the streams from getEpisodeStreamUrl(); MP4 streams are preferred.
+ * Data is written to a .part file that is resumed on the next attempt and renamed once complete.
+ * External subtitle tracks are saved next to the video (see subtitles.ts) unless downloadSubtitles is off.
  */
 export async function downloadVideo(
-  url: string, 
-  animeTitle: string, 
-  episodeName: string, 
+  source: string | StreamUrl[], 
+  naming: DownloadNaming, 
   options: DownloadOptions = {}
 ): Promise<boolean> {
+  const log = options.quiet ? () => {} : console.log;
+  
   try {
+    const stream = typeof source === 'string' ? null : selectStream(source, options.quality, 'mp4');
+    const url = typeof source === 'string' ? source : stream?.url;
+    if (!url) {
+      log('❌ No downloadable stream found');
+      return false;
+    }
+    if (stream?.type === 'm3u8') {
+      log('❌ Only HLS streams are available for this episode; they can be played but not downloaded');
+      return false;
+    }
+    
+    const expectedSize = options.expectedSize || stream?.size;
+    const subtitles = getConfig().downloadSubtitles ? options.subtitles || stream?.subtitles || [] : [];
+    
     // Create download directory
-    const downloadDir = options.outputDir || path.join(getAppDataDir(), 'downloads');
-    const animeDir = path.join(downloadDir, sanitizeFilename(animeTitle));
+    const downloadPath = resolveDownloadPath({
+      ...naming,
+      fansubName: naming.fansubName || stream?.fansubName,
+      quality: naming.quality || stream?.quality
+    }, options);
+    const filePath = path.join(downloadPath.downloadDir, ...downloadPath.folders, downloadPath.filename);
+    // Show-level files go in the anime's top folder, e.g. "Show" rather than "Show/Season 01"
+    const showDir = downloadPath.folders.length > 0 ? path.join(downloadPath.downloadDir, downloadPath.folders[0]) : null;
+    const partPath = `${filePath}${PART_EXTENSION}`;
+    const animeDir = path.dirname(filePath);
     ensureDir(animeDir);
     
-    // Generate filename
-    const filename = options.filename || `${sanitizeFilename(episodeName)}.mp4`;
-    const filePath = path.join(animeDir, filename);
-    
     // Check if file already exists
     if (fs.existsSync(filePath)) {
-      console.log(`⚠️ File already exists: ${filePath}`);
-      return true;
+      const size = getFileSize(filePath);
+      if (isDownloadComplete(filePath, expectedSize)) {
+        log(`⚠️ File already exists: ${filePath}`);
+        if (options.metadata && !readDownloadMetadata(filePath)) writeDownloadMetadata(filePath, options.metadata);
+        await saveSubtitles(subtitles, filePath, log);
+        await saveMediaServerFiles(naming, filePath, showDir, options, log);
+        return true;
+      }
+      
+      // Left over from an older, possibly interrupted download - resume it if it's a prefix of the file.
+      // A complete file of unknown size is caught by the server answering the resume with 416.
+      log(expectedSize
+        ? `⚠️ ${path.basename(filePath)} is incomplete (${formatMegabytes(size)} of ${formatMegabytes(expectedSize)}), resuming`
+        : `⚠️ ${path.basename(filePath)} may be incomplete (${formatMegabytes(size)}), resuming`);
+      if ((!expectedSize || size < expectedSize) && !fs.existsSync(partPath)) {
+        fs.renameSync(filePath, partPath);
+      } else {
+        fs.unlinkSync(filePath);
+      }
     }
     
-    console.log(`📁 Download directory: ${animeDir}`);
-    console.log(`📄 Filename: ${filename}`);
+    log(`📁 Download directory: ${animeDir}`);
+    log(`📄 Filename: ${path.basename(filePath)}`);
     
-    // Try yt-dlp first, then curl as fallback
-    const success = await tryYtDlp(url, filePath) || await tryCurl(url, filePath);
-    
-    if (success) {
-      console.log(`✅ Download completed: ${filePath}`);
-      return true;
-    } else {
-      console.log('❌ Download failed with all methods');
-      return false;
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      try {
+        await downloadToPartFile(url, partPath, expectedSize, options);
+        verifyDownloadSize(partPath, expectedSize);
+        fs.renameSync(partPath, filePath);
+        
+        if (!options.onProgress && !options.quiet) process.stdout.write('\n');
+        log(`✅ Download completed: ${filePath}`);
+        if (options.metadata) writeDownloadMetadata(filePath, options.metadata);
+        await saveSubtitles(subtitles, filePath, log);
+        await saveMediaServerFiles(naming, filePath, showDir, options, log);
+        return true;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        
+        // Client errors and bad sizes won't be fixed by retrying
+        const retryable = !(error instanceof HttpError && error.status < 500) && !(error instanceof DownloadSizeError);
+        if (error instanceof DownloadSizeError) {
+          fs.rmSync(partPath, { force: true });
+        }
+        
+        if (!retryable || attempt === MAX_ATTEMPTS) {
+          log(`\n❌ Download failed: ${message}`);
+          return false;
+        }
+        
+        log(`\n⚠️ Download interrupted (${message}), resuming (attempt ${attempt + 1}/${MAX_ATTEMPTS})...`);
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      }
     }
     
+    return false;
+    
   } catch (error) {
     console.error('❌ Download error:', error);
     return false;
@@ -63,134 +249,238 @@ export async function downloadVideo(
 }
 
 /**
- * Try downloading with yt-dlp
+ * Get the path of a downloaded video's metadata sidecar
+ */
+function getMetadataPath(filePath: string): string {
+  return `${filePath.slice(0, filePath.length - path.extname(filePath).length)}${METADATA_EXTENSION}`;
+}
+
+/**
+ * Save the metadata sidecar for a downloaded video
+ */
+function writeDownloadMetadata(filePath: string, metadata: NonNullable<DownloadOptions['metadata']>): void {
+  const data: DownloadMetadata = { version: DOWNLOAD_METADATA_VERSION, ...metadata, downloadedAt: new Date().toISOString() };
+  const metadataPath = getMetadataPath(filePath);
+  const tempFile = `${metadataPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(data, null, 2));
+  fs.renameSync(tempFile, metadataPath);
+}
+
+/**
+ * Read the metadata sidecar of a downloaded video, or null if it has none (e.g. older downloads)
+ */
+export function readDownloadMetadata(filePath: string): DownloadMetadata | null {
+  try {
+    const data = JSON.parse(fs.readFileSync(getMetadataPath(filePath), 'utf8'));
+    return data && typeof data.animeId === 'string' && typeof data.seasonNumber === 'number' && typeof data.episodeNumber === 'number'
+      ? data
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the files saved next to a downloaded video: its metadata, .nfo and subtitle sidecars
+ */
+export function getSidecarFiles(filePath: string): string[] {
+  const base = filePath.slice(0, filePath.length - path.extname(filePath).length);
+  const files = [getMetadataPath(filePath), `${base}${EPISODE_NFO_EXTENSION}`].filter(file => fs.existsSync(file));
+  return [...files, ...findSidecarSubtitles(filePath)];
+}
+
+/**
+ * Write .nfo files and artwork for media servers; failures only cost the artwork, not the download
  */
-async function tryYtDlp(url: string, outputPath: string): Promise<boolean> {
+async function saveMediaServerFiles(naming: DownloadNaming, filePath: string, showDir: string | null, options: DownloadOptions, log: (message: string) => void): Promise<void> {
+  if (!options.mediaInfo || !getConfig().writeNfoFiles) return;
+  
   try {
-    // Check if yt-dlp is installed
-    await execAsync('which yt-dlp');
-    
-    console.log('⬇️ Starting download with yt-dlp...');
-    
-    const command = `yt-dlp -o "${outputPath}" "${url}"`;
-    
-    const process = exec(command);
-    
-    // Show progress
-    process.stdout?.on('data', (data) => {
-      const output = data.toString().trim();
-      if (output.includes('%')) {
-        // Extract progress percentage
-        const progressMatch = output.match(/(\d+(?:\.\d+)?)%/);
-        if (progressMatch) {
-          console.log(`📊 Progress: ${progressMatch[1]}%`);
-        }
-      }
-    });
-    
-    process.stderr?.on('data', (data) => {
-      const error = data.toString().trim();
-      if (error && !error.includes('WARNING')) {
-        console.error(`\n⚠️ yt-dlp warning: ${error}`);
-      }
-    });
-    
-    await new Promise((resolve, reject) => {
-      process.on('close', (code) => {
-        if (code === 0) {
-          console.log('\n✅ yt-dlp download completed');
-          resolve(true);
-        } else {
-          console.log(`\n❌ yt-dlp failed with code ${code}`);
-          reject(new Error(`yt-dlp failed with code ${code}`));
-        }
-      });
-      process.on('error', reject);
-    });
-    
-    return true;
-    
+    writeEpisodeNfo(filePath, options.mediaInfo, naming.seasonNumber, naming.episodeNumber, naming.episodeTitle);
+    // Without an anime folder, tvshow.nfo and the artwork would be shared by every anime
+    if (showDir) await writeShowFiles(showDir, options.mediaInfo);
   } catch (error) {
-    console.log('⚠️ yt-dlp not available or failed');
-    return false;
+    log(`⚠️ Could not save media server metadata: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Save subtitle sidecars for a downloaded video; a missing subtitle doesn't fail the download
+ */
+async function saveSubtitles(tracks: SubtitleTrack[], filePath: string, log: (message: string) => void): Promise<void> {
+  if (tracks.length === 0) return;
+  
+  const { saved, failed } = await downloadSubtitleFiles(tracks, filePath);
+  for (const file of saved) {
+    log(`💬 Subtitles saved: ${path.basename(file)}`);
+  }
+  for (const message of failed) {
+    log(`⚠️ Could not download subtitles ${message}`);
+  }
+}
+
+/**
+ * Thrown when a finished download doesn't have the expected size
+ */
+class DownloadSizeError extends Error {
+  constructor(actual: number, expected: number) {
+    super(`File is ${actual} bytes but expected ${expected}`);
+    this.name = 'DownloadSizeError';
+  }
+}
+
+/**
+ * Check a finished .part file against the expected size
+ */
+function verifyDownloadSize(partPath: string, expectedSize?: number): void {
+  const size = getFileSize(partPath);
+  if (size === 0) {
+    throw new DownloadSizeError(0, expectedSize || 1);
+  }
+  if (expectedSize && size !== expectedSize) {
+    throw new DownloadSizeError(size, expectedSize);
   }
 }
 
 /**
- * Try downloading with curl
+ * Download (or resume downloading) a URL into a .part file using HTTP Range requests
  */
-async function tryCurl(url: string, outputPath: string): Promise<boolean> {
+async function downloadToPartFile(url: string, partPath: string, expectedSize: number | undefined, options: DownloadOptions): Promise<void> {
+  let offset = getFileSize(partPath);
+  
+  // Nothing left to fetch
+  if (expectedSize && offset === expectedSize) return;
+  if (expectedSize && offset > expectedSize) {
+    fs.rmSync(partPath, { force: true });
+    offset = 0;
+  }
+  
+  // Abort when the connection stalls, while connecting or mid-transfer; the caller resumes from the .part file
+  const controller = new AbortController();
+  let stallTimer = setTimeout(() => controller.abort(), STALL_TIMEOUT_MS);
+  const resetStallTimer = () => {
+    clearTimeout(stallTimer);
+    stallTimer = setTimeout(() => controller.abort(), STALL_TIMEOUT_MS);
+  };
+  
   try {
-    console.log('⬇️ Starting download with curl...');
-    
-    const command = `curl -L --progress-bar -o "${outputPath}" "${url}"`;
-    
-    const process = exec(command);
-    
-    // Show progress
-    process.stderr?.on('data', (data) => {
-      const output = data.toString();
-      // Curl shows progress on stderr
-      if (output.includes('#')) {
-        console.log(output.trim());
-      }
-    });
-    
-    await new Promise((resolve, reject) => {
-      process.on('close', (code) => {
-        if (code === 0) {
-          console.log('\n✅ curl download completed');
-          resolve(true);
-        } else {
-          console.log(`\n❌ curl failed with code ${code}`);
-          reject(new Error(`curl failed with code ${code}`));
-        }
-      });
-      process.on('error', reject);
-    });
-    
-    return true;
-    
+    await fetchToPartFile(url, partPath, offset, expectedSize, options, controller.signal, resetStallTimer);
   } catch (error) {
-    console.log('❌ curl download failed');
-    return false;
+    if (controller.signal.aborted) throw new TimeoutError(url, STALL_TIMEOUT_MS);
+    throw error;
+  } finally {
+    clearTimeout(stallTimer);
   }
 }
 
 /**
- * Get download progress for a specific file
+ * Make the (Range) request for downloadToPartFile and write the response to the .part file
  */
-export function getDownloadProgress(filePath: string, expectedSize?: number): number {
-  try {
-    if (!fs.existsSync(filePath)) return 0;
+async function fetchToPartFile(
+  url: string,
+  partPath: string,
+  offset: number,
+  expectedSize: number | undefined,
+  options: DownloadOptions,
+  signal: AbortSignal,
+  onData: () => void
+): Promise<void> {
+  const response = await fetch(url, {
+    headers: {
+      'User-Agent': DEFAULT_USER_AGENT,
+      ...(offset > 0 ? { 'Range': `bytes=${offset}-` } : {})
+    },
+    signal
+  });
+  onData();
+  
+  // The server says the range starts past the end: the .part file is already complete
+  if (response.status === 416 && offset > 0) return;
+  
+  if (!response.ok || !response.body) {
+    throw new HttpError(url, response.status, response.statusText);
+  }
+  
+  // 200 means the server ignored the Range header, so start over
+  if (response.status !== 206 && offset > 0) {
+    offset = 0;
+  }
+  
+  const contentLength = Number(response.headers.get('content-length')) || 0;
+  const serverTotal = contentLength ? offset + contentLength : undefined;
+  
+  // Fail before downloading if the server's file doesn't match the size the API reported
+  if (expectedSize && serverTotal && serverTotal !== expectedSize) {
+    response.body.resume();
+    throw new DownloadSizeError(serverTotal, expectedSize);
+  }
+  
+  const totalBytes = expectedSize || serverTotal;
+  
+  let downloadedBytes = offset;
+  let lastReport = 0;
+  const startedAt = Date.now();
+  
+  const report = (force: boolean) => {
+    const now = Date.now();
+    if (!force && now - lastReport < PROGRESS_INTERVAL_MS) return;
+    lastReport = now;
     
-    const stats = fs.statSync(filePath);
-    const currentSize = stats.size;
+    const elapsedSeconds = Math.max((now - startedAt) / 1000, 0.001);
+    const progress: DownloadProgress = {
+      downloadedBytes,
+      totalBytes,
+      percent: totalBytes ? Math.min(100, (downloadedBytes / totalBytes) * 100) : undefined,
+      bytesPerSecond: (downloadedBytes - offset) / elapsedSeconds
+    };
     
-    if (expectedSize && expectedSize > 0) {
-      return Math.round((currentSize / expectedSize) * 100);
+    if (options.onProgress) {
+      options.onProgress(progress);
+    } else if (!options.quiet) {
+      const percent = progress.percent !== undefined ? `${progress.percent.toFixed(1)}% ` : '';
+      const total = totalBytes ? `/${formatMegabytes(totalBytes)}` : '';
+      process.stdout.write(`\r📊 ${percent}(${formatMegabytes(downloadedBytes)}${total}) ${formatMegabytes(progress.bytesPerSecond)}/s   `);
     }
-    
-    // If we don't know expected size, just return the file size in MB
-    return Math.round(currentSize / (1024 * 1024));
-    
-  } catch (error) {
-    return 0;
+  };
+  
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      downloadedBytes += chunk.length;
+      onData();
+      report(false);
+      callback(null, chunk);
+    }
+  });
+  
+  await pipeline(response.body, counter, fs.createWriteStream(partPath, { flags: offset > 0 ? 'a' : 'w' }));
+  report(true);
+  
+  // A connection that ends early leaves a short file; treat it as an interruption so it's resumed
+  if (totalBytes && downloadedBytes < totalBytes) {
+    throw new Error(`connection closed after ${formatMegabytes(downloadedBytes)} of ${formatMegabytes(totalBytes)}`);
   }
 }
 
 /**
- * List downloaded episodes for an anime
+ * List every downloaded episode file, searching the folders the download templates create
  */
-export function getDownloadedEpisodes(animeTitle: string): string[] {
+export function getDownloadedEpisodes(): string[] {
   try {
-    const downloadDir = path.join(getAppDataDir(), 'downloads');
-    const animeDir = path.join(downloadDir, sanitizeFilename(animeTitle));
-    
-    if (!fs.existsSync(animeDir)) return [];
+    const files: string[] = [];
+    const walk = (dir: string) => {
+      for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          walk(entryPath);
+        } else if (entry.name.endsWith('.mp4')) {
+          files.push(entryPath);
+        }
+      }
+    };
     
-    const files = fs.readdirSync(animeDir);
-    return files.filter(file => file.endsWith('.mp4'));
+    const downloadDir = getDownloadDir();
+    if (fs.existsSync(downloadDir)) walk(downloadDir);
+    return files;
     
   } catch (error) {
     return [];
@@ -198,17 +488,24 @@ export function getDownloadedEpisodes(animeTitle: string): string[] {
 }
 
 /**
- * Delete downloaded episode
+ * Delete downloaded episode with its sidecar files, and any folders left empty
  */
-export function deleteDownloadedEpisode(animeTitle: string, filename: string): boolean {
+export function deleteDownloadedEpisode(filePath: string): boolean {
   try {
-    const downloadDir = path.join(getAppDataDir(), 'downloads');
-    const animeDir = path.join(downloadDir, sanitizeFilename(animeTitle));
-    const filePath = path.join(animeDir, filename);
-    
     if (fs.existsSync(filePath)) {
+      getSidecarFiles(filePath).forEach(file => fs.unlinkSync(file));
       fs.unlinkSync(filePath);
-      console.log(`🗑️ Deleted: ${filename}`);
+      
+      // Remove folders that are left empty, or only hold the anime's tvshow.nfo and artwork
+      const downloadDir = getDownloadDir();
+      for (let dir = path.dirname(filePath); dir.startsWith(downloadDir + path.sep); dir = path.dirname(dir)) {
+        const remaining = fs.readdirSync(dir);
+        if (!remaining.every(isShowMetadataFile)) break;
+        remaining.forEach(file => fs.unlinkSync(path.join(dir, file)));
+        fs.rmdirSync(dir);
+      }
+      
+      console.log(`🗑️ Deleted: ${path.basename(filePath)}`);
       return true;
     }
     
@@ -0,0 +1,80 @@
+/**
+ * Download queue for running several episode downloads with limited concurrency
+ */
+
+export type DownloadJobStatus = 'pending' | 'running' | 'done' | 'skipped' | 'failed';
+
+export interface DownloadJob {
+  label: string;
+  status: DownloadJobStatus;
+  percent: number;
+  error?: string;
+  /**
+   * Perform the download, reporting progress as a percentage.
+   * Resolve with 'skipped' when there is nothing to do, throw on failure.
+   */
+  run: (onProgress: (percent: number) => void) => Promise<'done' | 'skipped'>;
+}
+
+export interface DownloadQueueSummary {
+  done: DownloadJob[];
+  skipped: DownloadJob[];
+  failed: DownloadJob[];
+}
+
+/**
+ * Create a pending job
+ */
+export function createDownloadJob(label: string, run: DownloadJob['run']): DownloadJob {
+  return { label, status: 'pending', percent: 0, run };
+}
+
+/**
+ * Get overall progress of the queue as a percentage (finished jobs count as 100%)
+ */
+export function getQueueProgress(jobs: DownloadJob[]): number {
+  if (jobs.length === 0) return 100;
+  const total = jobs.reduce((sum, job) => sum + (job.status === 'pending' || job.status === 'running' ? job.percent : 100), 0);
+  return Math.round(total / jobs.length);
+}
+
+/**
+ * Run jobs with at most `concurrency` in flight, calling onUpdate whenever a job changes
+ */
+export async function runDownloadQueue(
+  jobs: DownloadJob[],
+  concurrency: number,
+  onUpdate: (job: DownloadJob, jobs: DownloadJob[]) => void = () => {}
+): Promise<DownloadQueueSummary> {
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < jobs.length) {
+      const job = jobs[nextIndex++];
+      job.status = 'running';
+      onUpdate(job, jobs);
+
+      try {
+        job.status = await job.run((percent) => {
+          job.percent = Math.max(0, Math.min(100, percent));
+          onUpdate(job, jobs);
+        });
+        if (job.status === 'done') job.percent = 100;
+      } catch (error) {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+      }
+
+      onUpdate(job, jobs);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, jobs.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return {
+    done: jobs.filter(job => job.status === 'done'),
+    skipped: jobs.filter(job => job.status === 'skipped'),
+    failed: jobs.filter(job => job.status === 'failed')
+  };
+}
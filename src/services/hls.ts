@@ -0,0 +1,86 @@
+/**
+ * HLS (m3u8) playlist parsing for stream discovery
+ */
+
+import { HttpClient } from './http.js';
+
+export interface HlsVariant {
+  url: string;
+  bandwidth: number;
+  width?: number;
+  height?: number;
+  codecs?: string;
+}
+
+/**
+ * Check whether a URL or path points to an HLS playlist
+ */
+export function isHlsUrl(url: string): boolean {
+  return /\.m3u8($|\?)/i.test(url);
+}
+
+/**
+ * Parse the attribute list of an #EXT-X-STREAM-INF tag, e.g. BANDWIDTH=800000,RESOLUTION=1280x720,CODECS="avc1,mp4a"
+ */
+function parseAttributes(attributeList: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(attributeList)) !== null) {
+    attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+  }
+
+  return attributes;
+}
+
+/**
+ * Parse a master playlist into its variant streams, highest resolution first.
+ * Returns an empty list for media playlists, which have no variants.
+ */
+export function parseMasterPlaylist(content: string, playlistUrl: string): HlsVariant[] {
+  // Some servers send a byte order mark or blank lines before the header
+  const lines = content.replace(/^\uFEFF/, '').trim().split(/\r?\n/).map(line => line.trim());
+  if (lines[0] !== '#EXTM3U') return [];
+
+  const variants: HlsVariant[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith('#EXT-X-STREAM-INF:')) continue;
+
+    const attributes = parseAttributes(lines[i].substring('#EXT-X-STREAM-INF:'.length));
+
+    // The variant URI is the next non-empty, non-comment line
+    let uri = '';
+    for (let j = i + 1; j < lines.length; j++) {
+      if (lines[j] && !lines[j].startsWith('#')) {
+        uri = lines[j];
+        i = j;
+        break;
+      }
+    }
+    if (!uri) continue;
+
+    const resolution = attributes.RESOLUTION?.match(/^(\d+)x(\d+)$/);
+
+    variants.push({
+      url: new URL(uri, playlistUrl).toString(),
+      bandwidth: parseInt(attributes.BANDWIDTH || '0', 10),
+      width: resolution ? parseInt(resolution[1], 10) : undefined,
+      height: resolution ? parseInt(resolution[2], 10) : undefined,
+      codecs: attributes.CODECS
+    });
+  }
+
+  return variants.sort((a, b) => (b.height || 0) - (a.height || 0) || b.bandwidth - a.bandwidth);
+}
+
+/**
+ * Fetch a playlist and return its variants
+ */
+export async function getHlsVariants(playlistUrl: string): Promise<HlsVariant[]> {
+  const url = new URL(playlistUrl);
+  const client = new HttpClient({ baseUrl: url.origin });
+  const content = await client.getText(`${url.pathname}${url.search}`);
+  return parseMasterPlaylist(content, playlistUrl);
+}
@@ -0,0 +1,227 @@
+/**
+ * HTTP client for JSON APIs and text resources with timeouts, retries and typed errors
+ */
+
+import fetch from 'node-fetch';
+
+export interface HttpClientOptions {
+  baseUrl: string;
+  userAgent?: string;
+  timeoutMs?: number;
+  retries?: number;
+  retryDelayMs?: number;
+}
+
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+export interface RequestOptions<T> {
+  query?: QueryParams;
+  headers?: Record<string, string>;
+  validate?: (data: unknown) => data is T;
+}
+
+export interface SendOptions<T> extends RequestOptions<T> {
+  json?: unknown; // sent as application/json
+  form?: Record<string, string>; // sent as application/x-www-form-urlencoded
+}
+
+interface FetchInit {
+  method: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+
+/**
+ * Thrown when the server answers with a non-2xx status
+ */
+export class HttpError extends Error {
+  constructor(public readonly url: string, public readonly status: number, public readonly statusText: string) {
+    super(`HTTP ${status} ${statusText} for ${url}`);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * Thrown when the response body is not valid JSON
+ */
+export class JsonParseError extends Error {
+  constructor(public readonly url: string, public readonly body: string) {
+    super(`Invalid JSON response from ${url}: ${body.substring(0, 100)}`);
+    this.name = 'JsonParseError';
+  }
+}
+
+/**
+ * Thrown when a JSON response does not have the expected shape
+ */
+export class ResponseValidationError extends Error {
+  constructor(public readonly url: string) {
+    super(`Unexpected response shape from ${url}`);
+    this.name = 'ResponseValidationError';
+  }
+}
+
+/**
+ * Thrown when the request does not complete within the timeout
+ */
+export class TimeoutError extends Error {
+  constructor(public readonly url: string, public readonly timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Check whether a failed request is worth retrying
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof HttpError) {
+    return error.status >= 500 || error.status === 429;
+  }
+  // Bad JSON and bad shapes won't fix themselves on retry
+  return !(error instanceof JsonParseError || error instanceof ResponseValidationError);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Minimal JSON-over-HTTP client
+ */
+export class HttpClient {
+  private baseUrl: string;
+  private userAgent: string;
+  private timeoutMs: number;
+  private retries: number;
+  private retryDelayMs: number;
+
+  constructor(options: HttpClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.userAgent = options.userAgent || DEFAULT_USER_AGENT;
+    this.timeoutMs = options.timeoutMs ?? 15000;
+    this.retries = options.retries ?? 2;
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+  }
+
+  /**
+   * Build a full URL from a path relative to the base URL and query params
+   */
+  buildUrl(pathname: string, query: QueryParams = {}): string {
+    const url = new URL(`${this.baseUrl}/${pathname.replace(/^\/+/, '')}`);
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+    return url.toString();
+  }
+
+  /**
+   * GET a JSON resource, retrying transient failures with exponential backoff
+   */
+  async getJson<T>(pathname: string, options: RequestOptions<T> = {}): Promise<T> {
+    const url = this.buildUrl(pathname, options.query);
+    const init: FetchInit = { method: 'GET', headers: options.headers };
+    return this.withRetries(async () => this.parseJson(url, await this.fetchText(url, init), options.validate));
+  }
+
+  /**
+   * Send a JSON or form body and parse the JSON response, retrying transient failures
+   */
+  async sendJson<T>(method: 'POST' | 'PUT' | 'PATCH' | 'DELETE', pathname: string, options: SendOptions<T> = {}): Promise<T> {
+    const url = this.buildUrl(pathname, options.query);
+    const headers = { ...options.headers };
+    let body: string | undefined;
+
+    if (options.form) {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+      body = new URLSearchParams(options.form).toString();
+    } else if (options.json !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(options.json);
+    }
+
+    const init: FetchInit = { method, headers, body };
+    return this.withRetries(async () => this.parseJson(url, await this.fetchText(url, init), options.validate));
+  }
+
+  /**
+   * GET a plain text resource, retrying transient failures with exponential backoff
+   */
+  async getText(pathname: string, query?: QueryParams): Promise<string> {
+    const url = this.buildUrl(pathname, query);
+    return this.withRetries(() => this.fetchText(url, { method: 'GET' }));
+  }
+
+  /**
+   * Parse and validate a JSON response body
+   */
+  private parseJson<T>(url: string, body: string, validate?: (data: unknown) => data is T): T {
+    let data: unknown;
+    try {
+      data = JSON.parse(body);
+    } catch {
+      throw new JsonParseError(url, body);
+    }
+
+    if (validate && !validate(data)) {
+      throw new ResponseValidationError(url);
+    }
+    return data as T;
+  }
+
+  /**
+   * Run a request, retrying retryable failures
+   */
+  private async withRetries<T>(request: () => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.retries; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        lastError = error;
+        if (attempt === this.retries || !isRetryable(error)) break;
+        await sleep(this.retryDelayMs * 2 ** attempt);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Perform a single request and return the body
+   */
+  private async fetchText(url: string, init: FetchInit): Promise<string> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(url, {
+        method: init.method,
+        headers: {
+          'User-Agent': this.userAgent,
+          'Accept': 'application/json, application/vnd.apple.mpegurl, */*',
+          ...init.headers
+        },
+        body: init.body,
+        signal: controller.signal
+      });
+
+      const body = await response.text();
+      if (!response.ok) {
+        throw new HttpError(url, response.status, response.statusText);
+      }
+
+      return body;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new TimeoutError(url, this.timeoutMs);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
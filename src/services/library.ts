@@ -0,0 +1,154 @@
+/**
+ * Offline library: downloaded anime and episodes, read from the download folder only
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getDownloadDir, getDownloadedEpisodes, getSidecarFiles, readDownloadMetadata, deleteDownloadedEpisode, DownloadMetadata } from './download.js';
+import { getWatchHistory } from '../utils/historyUtils.js';
+
+export interface LibraryEpisode {
+  filePath: string;
+  filename: string;
+  size: number; // bytes, including sidecar files
+  seasonNumber: number;
+  episodeNumber: number;
+  title: string;
+  metadata: DownloadMetadata | null;
+}
+
+export interface LibraryAnime {
+  key: string; // anime id, or the folder for downloads without metadata
+  title: string;
+  animeId?: string; // from the metadata sidecars, or the watch history for older downloads
+  animeSlug?: string;
+  episodes: LibraryEpisode[]; // by season and episode
+  size: number; // bytes
+}
+
+/**
+ * Get the total size of files, ignoring ones that disappeared
+ */
+function getTotalSize(files: string[]): number {
+  return files.reduce((total, file) => {
+    try {
+      return total + fs.statSync(file).size;
+    } catch {
+      return total;
+    }
+  }, 0);
+}
+
+/**
+ * Read a downloaded episode; without a metadata sidecar, the season and episode
+ * come from an "S1E2" in the file name, e.g. "S1E2 - Title" or "Show - S01E02"
+ */
+function readLibraryEpisode(filePath: string): LibraryEpisode {
+  const filename = path.basename(filePath);
+  const metadata = readDownloadMetadata(filePath);
+  const size = getTotalSize([filePath, ...getSidecarFiles(filePath)]);
+
+  if (metadata) {
+    return {
+      filePath,
+      filename,
+      size,
+      seasonNumber: metadata.seasonNumber,
+      episodeNumber: metadata.episodeNumber,
+      title: metadata.episodeTitle,
+      metadata
+    };
+  }
+
+  const name = path.basename(filename, path.extname(filename));
+  const match = name.match(/S(\d+)E(\d+)(?:[\s_]*-[\s_]*(.+))?/i);
+  return {
+    filePath,
+    filename,
+    size,
+    seasonNumber: match ? parseInt(match[1], 10) : 0,
+    episodeNumber: match ? parseInt(match[2], 10) : 0,
+    title: (match?.[3] || name).replace(/_/g, ' '),
+    metadata: null
+  };
+}
+
+/**
+ * Compare folder names and titles, ignoring case and the underscores older versions used for spaces
+ */
+function normalizeName(name: string): string {
+  return name.replace(/[\s_]+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * List every downloaded anime with its episodes.
+ * Episodes are grouped by the anime in their metadata; ones without metadata (older downloads)
+ * by the top-level folder they are in, matched to watch history by the folder name.
+ */
+export function getLibrary(): LibraryAnime[] {
+  const downloadDir = getDownloadDir();
+  const episodes = getDownloadedEpisodes().map(readLibraryEpisode);
+  const topFolder = (episode: LibraryEpisode) => path.relative(downloadDir, episode.filePath).split(path.sep)[0];
+  
+  // Folders that hold episodes with metadata take their anime's id
+  const folderKeys = new Map<string, string>();
+  for (const episode of episodes) {
+    if (episode.metadata && !folderKeys.has(topFolder(episode))) {
+      folderKeys.set(topFolder(episode), episode.metadata.animeId);
+    }
+  }
+  
+  const groups = new Map<string, LibraryEpisode[]>();
+  for (const episode of episodes) {
+    const key = episode.metadata?.animeId || folderKeys.get(topFolder(episode)) || topFolder(episode);
+    groups.set(key, [...(groups.get(key) || []), episode]);
+  }
+  
+  const history = getWatchHistory();
+  
+  return Array.from(groups, ([key, animeEpisodes]) => {
+    const metadata = animeEpisodes.find(episode => episode.metadata)?.metadata;
+    const folder = topFolder(animeEpisodes[0]);
+    const watched = metadata ? undefined : history.find(item => normalizeName(item.animeTitle) === normalizeName(folder));
+    
+    return {
+      key,
+      title: metadata?.animeTitle || watched?.animeTitle || folder.replace(/_/g, ' '),
+      animeId: metadata?.animeId || watched?.animeId,
+      animeSlug: metadata?.animeSlug || watched?.animeSlug,
+      episodes: animeEpisodes.sort((a, b) => a.seasonNumber - b.seasonNumber || a.episodeNumber - b.episodeNumber),
+      size: animeEpisodes.reduce((total, episode) => total + episode.size, 0)
+    };
+  }).sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * Find a downloaded anime by slug, title, anime id or folder name (case-insensitive)
+ */
+export function findLibraryAnime(library: LibraryAnime[], query: string): LibraryAnime | undefined {
+  const normalized = normalizeName(query);
+  return library.find(anime => (anime.animeSlug && normalizeName(anime.animeSlug) === normalized)
+    || normalizeName(anime.title) === normalized
+    || normalizeName(anime.key) === normalized);
+}
+
+/**
+ * Delete a downloaded episode with its sidecar files
+ */
+export function deleteLibraryEpisode(episode: LibraryEpisode): boolean {
+  return deleteDownloadedEpisode(episode.filePath);
+}
+
+/**
+ * Format a byte count for display, e.g. "1.4 GB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
@@ -0,0 +1,146 @@
+/**
+ * Media server metadata for downloads: Kodi-style .nfo files and artwork that Kodi,
+ * Jellyfin, Emby and Plex (with its local media agent) read from the download folders
+ */
+
+import fetch from 'node-fetch';
+import fs from 'fs';
+import path from 'path';
+import { AnimeDetail, EpisodeDetail } from './api.js';
+import { DEFAULT_USER_AGENT, HttpError } from './http.js';
+
+export interface MediaInfo {
+  anime: AnimeDetail;
+  episode: EpisodeDetail['episodeData'] | null;
+  fansubName?: string;
+  malId?: number; // of the anime, not the season
+}
+
+export const EPISODE_NFO_EXTENSION = '.nfo';
+
+// Show-level files; a show folder holding only these has no downloads left
+const SHOW_FILE_PATTERN = /^(tvshow\.nfo|poster\.\w+|fanart\.\w+)$/i;
+
+/**
+ * Check whether a file name is one of the show-level files written by writeShowFiles
+ */
+export function isShowMetadataFile(filename: string): boolean {
+  return SHOW_FILE_PATTERN.test(filename);
+}
+
+/**
+ * Escape text for an XML element
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Build an XML document from [tag, value, attributes] rows, skipping empty values
+ */
+function buildNfo(root: string, rows: Array<[string, string | number | undefined, Record<string, string | number>?]>): string {
+  const lines = rows
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([tag, value, attributes = {}]) => {
+      const attributeText = Object.entries(attributes).map(([name, attribute]) => ` ${name}="${escapeXml(String(attribute))}"`).join('');
+      return `  <${tag}${attributeText}>${escapeXml(String(value))}</${tag}>`;
+    });
+  return ['<?xml version="1.0" encoding="UTF-8" standalone="yes"?>', `<${root}>`, ...lines, `</${root}>`, ''].join('\n');
+}
+
+/**
+ * Format an API date as YYYY-MM-DD, or undefined if it can't be parsed
+ */
+function formatNfoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Build tvshow.nfo for an anime
+ */
+export function buildShowNfo(info: MediaInfo): string {
+  const { anime } = info;
+  const title = anime.english || anime.turkish || anime.romaji;
+  const firstAired = [...anime.seasons].sort((a, b) => a.season_number - b.season_number)[0]?.air_date;
+
+  return buildNfo('tvshow', [
+    ['title', title],
+    ['originaltitle', anime.romaji !== title ? anime.romaji : undefined],
+    ['plot', anime.summary],
+    ['premiered', formatNfoDate(firstAired)],
+    ['uniqueid', anime.id, { type: 'openanime', default: 'true' }],
+    ['uniqueid', info.malId, { type: 'mal' }],
+    ...anime.seasons
+      .filter(season => season.name)
+      .map((season): [string, string, Record<string, number>] => ['namedseason', season.name, { number: season.season_number }])
+  ]);
+}
+
+/**
+ * Build the .nfo file for a downloaded episode
+ */
+export function buildEpisodeNfo(info: MediaInfo, seasonNumber: number, episodeNumber: number, episodeTitle: string): string {
+  const { anime, episode } = info;
+
+  return buildNfo('episodedetails', [
+    ['title', episode?.name || episodeTitle],
+    ['showtitle', anime.english || anime.turkish || anime.romaji],
+    ['season', seasonNumber],
+    ['episode', episodeNumber],
+    ['plot', episode?.summary],
+    ['aired', formatNfoDate(episode?.airDate)],
+    ['credits', info.fansubName]
+  ]);
+}
+
+/**
+ * Write a text file atomically
+ */
+function writeTextFile(filePath: string, content: string): void {
+  const tempFile = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, content);
+  fs.renameSync(tempFile, filePath);
+}
+
+/**
+ * Download an image unless a file with that name (any extension) is already there
+ */
+async function downloadArtwork(url: string, showDir: string, name: string): Promise<void> {
+  if (!/^https?:\/\//.test(url)) return;
+  if (fs.readdirSync(showDir).some(file => path.parse(file).name.toLowerCase() === name)) return;
+
+  const extension = path.extname(new URL(url).pathname).toLowerCase() || '.jpg';
+  const response = await fetch(url, { headers: { 'User-Agent': DEFAULT_USER_AGENT } });
+  if (!response.ok) {
+    throw new HttpError(url, response.status, response.statusText);
+  }
+
+  const filePath = path.join(showDir, `${name}${extension}`);
+  const tempFile = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, Buffer.from(await response.arrayBuffer()));
+  fs.renameSync(tempFile, filePath);
+}
+
+/**
+ * Write tvshow.nfo, poster and fanart into an anime's folder.
+ * tvshow.nfo is refreshed on every download; images are only fetched once.
+ */
+export async function writeShowFiles(showDir: string, info: MediaInfo): Promise<void> {
+  writeTextFile(path.join(showDir, 'tvshow.nfo'), buildShowNfo(info));
+  await downloadArtwork(info.anime.pictures?.avatar || '', showDir, 'poster');
+  await downloadArtwork(info.anime.pictures?.banner || '', showDir, 'fanart');
+}
+
+/**
+ * Write the .nfo file next to a downloaded episode
+ */
+export function writeEpisodeNfo(videoPath: string, info: MediaInfo, seasonNumber: number, episodeNumber: number, episodeTitle: string): void {
+  const nfoPath = `${videoPath.slice(0, videoPath.length - path.extname(videoPath).length)}${EPISODE_NFO_EXTENSION}`;
+  writeTextFile(nfoPath, buildEpisodeNfo(info, seasonNumber, episodeNumber, episodeTitle));
+}
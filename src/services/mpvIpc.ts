@@ -0,0 +1,153 @@
+/**
+ * Client for mpv's JSON IPC protocol (--input-ipc-server)
+ */
+
+import net from 'net';
+import os from 'os';
+import path from 'path';
+
+interface PendingRequest {
+  resolve: (data: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Get a unique IPC socket path for one playback session
+ */
+export function createIpcSocketPath(sessionId: string): string {
+  if (process.platform === 'win32') {
+    return `\\\\.\\pipe\\openanime-mpv-${sessionId}`;
+  }
+  return path.join(os.tmpdir(), `openanime-mpv-${sessionId}.sock`);
+}
+
+/**
+ * Connection to a running mpv instance
+ */
+export class MpvIpcClient {
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingRequest>();
+  private closed = false;
+
+  constructor(private socketPath: string) {}
+
+  /**
+   * Connect to mpv, retrying while mpv starts up and creates the socket
+   */
+  async connect(timeoutMs: number = 10000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      try {
+        this.socket = await this.tryConnect();
+        break;
+      } catch (error) {
+        if (this.closed || Date.now() >= deadline) throw error;
+        await new Promise(resolve => setTimeout(resolve, 200));
+      }
+    }
+
+    if (this.closed) {
+      this.socket.destroy();
+      this.socket = null;
+      throw new Error('mpv IPC client was closed');
+    }
+
+    this.socket.setEncoding('utf8');
+    this.socket.on('data', (chunk: string) => this.handleData(chunk));
+    this.socket.on('close', () => this.rejectPending(new Error('mpv IPC connection closed')));
+    this.socket.on('error', () => { /* surfaced through 'close' */ });
+  }
+
+  /**
+   * Whether the connection is open
+   */
+  isConnected(): boolean {
+    return this.socket !== null && !this.socket.destroyed;
+  }
+
+  /**
+   * Read an mpv property, e.g. "time-pos" or "duration"
+   */
+  getProperty<T = unknown>(name: string): Promise<T> {
+    return this.command(['get_property', name]) as Promise<T>;
+  }
+
+  /**
+   * Send a command and wait for its reply
+   */
+  command(args: unknown[]): Promise<unknown> {
+    const socket = this.socket;
+    if (!socket || socket.destroyed) {
+      return Promise.reject(new Error('mpv IPC is not connected'));
+    }
+
+    const requestId = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { resolve, reject });
+      socket.write(`${JSON.stringify({ command: args, request_id: requestId })}\n`);
+    });
+  }
+
+  /**
+   * Close the connection
+   */
+  close(): void {
+    this.closed = true;
+    this.socket?.destroy();
+    this.socket = null;
+  }
+
+  private tryConnect(): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(this.socketPath);
+      socket.once('connect', () => {
+        socket.removeAllListeners('error');
+        resolve(socket);
+      });
+      socket.once('error', reject);
+    });
+  }
+
+  /**
+   * Handle newline-delimited JSON replies and events from mpv
+   */
+  private handleData(chunk: string): void {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      let message: { request_id?: number; error?: string; data?: unknown };
+      try {
+        message = JSON.parse(line);
+      } catch {
+        continue;
+      }
+
+      // Events (no request_id) are ignored; we only poll
+      if (message.request_id === undefined) continue;
+
+      const request = this.pending.get(message.request_id);
+      if (!request) continue;
+      this.pending.delete(message.request_id);
+
+      if (message.error && message.error !== 'success') {
+        request.reject(new Error(`mpv: ${message.error}`));
+      } else {
+        request.resolve(message.data);
+      }
+    }
+  }
+
+  private rejectPending(error: Error): void {
+    for (const request of this.pending.values()) {
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+}
@@ -2,17 +2,24 @@
  * Video player service for handling video playback
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs';
-import path from 'path';
+import { StreamUrl, SubtitleTrack, selectStream } from './api.js';
+import { MpvIpcClient, createIpcSocketPath } from './mpvIpc.js';
+import { getConfiguredPlayer } from './playerAdapters.js';
+import { orderSubtitleTracks } from './subtitles.js';
+import { saveWatchHistory } from '../utils/historyUtils.js';
+import { getConfig } from '../utils/config.js';
+import { runProcess, formatExitStatus, ProcessResult } from '../utils/process.js';
 
-const execAsync = promisify(exec);
+const PROGRESS_POLL_INTERVAL_MS = 1000;
+const HISTORY_CHECKPOINT_INTERVAL_MS = 15000;
 
 export interface PlaybackOptions {
   startTime?: number;
   quality?: string;
-  subtitles?: string;
+  subtitles?: SubtitleTrack[]; // defaults to the selected stream's subtitle tracks
+  subtitleLanguages?: string[]; // defaults to the subtitleLanguages config
+  audioLanguages?: string[]; // defaults to the audioLanguages config
   // Episode info for history tracking
   animeId?: string;
   animeTitle?: string;
@@ -30,157 +37,174 @@ export interface PlaybackProgress {
 }
 
 /**
- * Play video using MPV player with progress tracking
+ * Calculate progress from a time position and duration
  */
-export async function playVideo(url: string, options: PlaybackOptions = {}): Promise<PlaybackProgress> {
+function toPlaybackProgress(timePos: number, duration: number): PlaybackProgress {
+  return {
+    progress: duration > 0 ? Math.min(100, Math.round((timePos / duration) * 100)) : 0,
+    timePos: Math.round(timePos),
+    duration: Math.round(duration)
+  };
+}
+
+/**
+ * Save a history checkpoint for the episode being played
+ */
+function checkpointHistory(options: PlaybackOptions, playback: PlaybackProgress): void {
+  if (!options.animeId || !getConfig().enableHistory) return;
+  
+  saveWatchHistory({
+    animeId: options.animeId,
+    animeTitle: options.animeTitle || '',
+    animeSlug: options.animeSlug || '',
+    seasonNumber: options.seasonNumber || 0,
+    episodeNumber: options.episodeNumber || 0,
+    episodeTitle: options.episodeTitle || '',
+    fansubName: options.fansubName || 'Unknown',
+    watchedAt: new Date(),
+    ...playback
+  }, true);
+}
+
+/**
+ * Build the player window title for an episode
+ */
+function formatWindowTitle(options: PlaybackOptions): string | undefined {
+  if (!options.animeTitle) return undefined;
+  const episode = options.seasonNumber && options.episodeNumber ? ` - S${options.seasonNumber}E${options.episodeNumber}` : '';
+  const episodeTitle = options.episodeTitle ? ` - ${options.episodeTitle}` : '';
+  return `${options.animeTitle}${episode}${episodeTitle}`;
+}
+
+/**
+ * Play video with the configured player (see playerAdapters.ts).
+ * Accepts a direct URL or the streams from getEpisodeStreamUrl(); external subtitle tracks
+ * are loaded with the stream, the preferred languages first.
+ * For players that support it, progress is polled over mpv's JSON IPC socket (one socket per
+ * session) and checkpointed to watch history while the episode plays.
+ */
+export async function playVideo(source: string | StreamUrl[], options: PlaybackOptions = {}): Promise<PlaybackProgress> {
   try {
-    // Check if mpv is installed
-    try {
-      await execAsync('which mpv');
-    } catch {
-      console.log('❌ MPV player not found. Please install MPV:');
-      console.log('Ubuntu/Debian: sudo apt install mpv');
-      console.log('macOS: brew install mpv');
-      console.log('Windows: Download from https://mpv.io/installation/');
+    const stream = typeof source === 'string' ? null : selectStream(source, options.quality);
+    const url = typeof source === 'string' ? source : stream?.url;
+    if (!url) {
+      console.log('❌ No playable stream found');
       return { progress: 0, timePos: 0, duration: 0 };
     }
     
-    // Create progress tracking file
-    const __dirname = import.meta.dirname;
-    const progressFile = path.join(__dirname, '..', '..', 'temp_progress.json');
-    const mpvScriptPath = path.join(__dirname, 'mpv-progress.lua');
-    
-    // Ensure temp directory exists
-    const tempDir = path.dirname(progressFile);
-    if (!fs.existsSync(tempDir)) {
-      fs.mkdirSync(tempDir, { recursive: true });
+    // Find the configured player
+    const player = getConfiguredPlayer();
+    const executable = await player.findExecutable();
+    if (!executable) {
+      console.log(`❌ ${player.displayName} player not found. Please install ${player.displayName}:`);
+      player.installHint.forEach(hint => console.log(hint));
+      return { progress: 0, timePos: 0, duration: 0 };
     }
     
-    let mpvCommand = `mpv "${url}"`;
+    // Per-session socket so parallel sessions don't talk to each other's player
+    const socketPath = createIpcSocketPath(`${process.pid}-${Date.now()}`);
+    
+    const config = getConfig();
+    const subtitleLanguages = options.subtitleLanguages || config.subtitleLanguages;
+    const subtitles = orderSubtitleTracks(options.subtitles || stream?.subtitles || [], subtitleLanguages);
+    
+    const args = player.buildArgs({
+      url,
+      title: formatWindowTitle(options),
+      startTime: options.startTime,
+      ipcSocketPath: player.capabilities.progress ? socketPath : undefined,
+      subtitleFiles: subtitles.map(track => track.url),
+      subtitleLanguages,
+      audioLanguages: options.audioLanguages || config.audioLanguages
+    });
     
-    // Add start time if specified
-    if (options.startTime) {
-      mpvCommand += ` --start=${options.startTime}`;
+    if (player.capabilities.progress) {
+      console.log(`🎬 Starting ${player.displayName} player with progress tracking...`);
+    } else {
+      console.log(`🎬 Starting ${player.displayName} player...`);
+      console.log(`⚠️ ${player.displayName} doesn't report playback progress, so your position won't be saved`);
+    }
+    if (subtitles.length > 0) {
+      if (player.capabilities.subtitles) {
+        console.log(`💬 Subtitles: ${subtitles.map(track => track.label ? `${track.language} (${track.label})` : track.language).join(', ')}`);
+      } else {
+        console.log(`⚠️ ${player.displayName} can't load external subtitle files; playing without them`);
+      }
+    }
+    if (options.startTime && !player.capabilities.resume) {
+      console.log(`⚠️ ${player.displayName} can't start at a given position; playback starts from the beginning`);
     }
-    
-    // Add progress tracking script
-    mpvCommand += ` --script="${mpvScriptPath}"`;
-    
-    // Add script options for history tracking
-    const historyFile = path.join(process.env.HOME || '~', '.openanime-cli', 'watch-history.json');
-    const scriptOpts = [
-      `progress_file="${progressFile}"`,
-      `history_file="${historyFile}"`,
-      `anime_id="${options.animeId || ''}"`,
-      `anime_title="${options.animeTitle || ''}"`,
-      `anime_slug="${options.animeSlug || ''}"`,
-      `season_number=${options.seasonNumber || 0}`,
-      `episode_number=${options.episodeNumber || 0}`,
-      `episode_title="${options.episodeTitle || ''}"`,
-      `fansub_name="${options.fansubName || ''}"`
-    ].join(',');
-    
-    mpvCommand += ` --script-opts="${scriptOpts}"`;
-    
-    // Debug: Show the full command
-    console.log('🐛 MPV Command:', mpvCommand);
-    console.log('🐛 Script Path:', mpvScriptPath);
-    console.log('🐛 Progress File:', progressFile);
-    
-    // Add additional mpv options for better streaming
-    mpvCommand += ' --cache=yes --demuxer-max-bytes=50M --demuxer-max-back-bytes=25M';
-    
-    console.log('🎬 Starting MPV player with progress tracking...');
     console.log('Press Ctrl+C or Q to stop playback');
     
-    // Start mpv and wait for it to finish
-    const mpvProcess = exec(mpvCommand);
-    
-    // Handle process events
-    let finalProgress = 0;
-    let finalTimePos = 0;
-    let finalDuration = 0;
-    
-    await new Promise((resolve, reject) => {
-      mpvProcess.on('close', (code) => {
-        console.log(`\n🔚 MPV exited with code: ${code}`);
-        
-        // Read final progress
-        try {
-          if (fs.existsSync(progressFile)) {
-            const progressData = JSON.parse(fs.readFileSync(progressFile, 'utf8'));
-            finalTimePos = Math.round(progressData.time_pos || 0);
-            finalDuration = Math.round(progressData.duration || 0);
-            
-            // Calculate progress percentage ourselves if not provided
-            if (finalDuration > 0 && finalTimePos > 0) {
-              finalProgress = Math.round((finalTimePos / finalDuration) * 100);
-            } else {
-              finalProgress = Math.round(progressData.percent_pos || 0);
-            }
-            
-            console.log(`📊 Final progress data:`, progressData);
-            console.log(`📊 Final progress: ${finalProgress}%`);
-            console.log(`⏱️ Watched: ${finalTimePos}s / ${finalDuration}s`);
-            // Don't clean up temp file to preserve progress
-            // fs.unlinkSync(progressFile);
-          } else {
-            console.log('⚠️ Progress file not found');
-          }
-        } catch (error) {
-          console.log('⚠️ Could not read progress data:', error instanceof Error ? error.message : String(error));
-        }
-        
-        if (code === 0) {
-          console.log('✅ Video playback finished normally');
-        } else {
-          console.log(`⚠️ MPV exited with code ${code}`);
-        }
-        resolve(code);
-      });
-      
-      mpvProcess.on('error', (error) => {
-        console.error('❌ Error starting MPV:', error.message);
-        reject(error);
-      });
-    });
+    // Start the player; it is awaited below, once progress polling is running
+    const exited = runProcess(executable, args);
+    let finished = false;
     
-    return { progress: finalProgress, timePos: finalTimePos, duration: finalDuration };
+    let timePos = options.startTime || 0;
+    let duration = 0;
+    let lastCheckpoint = Date.now();
     
-  } catch (error) {
-    console.error('Error playing video:', error);
-    return { progress: 0, timePos: 0, duration: 0 };
-  }
-}
-
-/**
- * Download video for offline viewing
- */
-export async function downloadVideo(url: string, filename: string): Promise<void> {
-  try {
-    // Check if yt-dlp or youtube-dl is installed
-    let downloader = '';
-    try {
-      await execAsync('which yt-dlp');
-      downloader = 'yt-dlp';
-    } catch {
+    const ipc = new MpvIpcClient(socketPath);
+    const poll = async () => {
+      if (!ipc.isConnected()) return;
       try {
-        await execAsync('which youtube-dl');
-        downloader = 'youtube-dl';
+        const [pos, length] = await Promise.all([
+          ipc.getProperty<number | null>('time-pos'),
+          ipc.getProperty<number | null>('duration')
+        ]);
+        if (typeof pos === 'number') timePos = pos;
+        if (typeof length === 'number') duration = length;
       } catch {
-        console.log('❌ No downloader found. Please install yt-dlp or youtube-dl:');
-        console.log('pip install yt-dlp');
+        // Properties are unavailable while the file loads, and the socket closes on quit
         return;
       }
+      
+      // History checkpoints keep the position if the CLI crashes mid-episode
+      const playback = toPlaybackProgress(timePos, duration);
+      if (duration > 0 && Date.now() - lastCheckpoint >= HISTORY_CHECKPOINT_INTERVAL_MS) {
+        lastCheckpoint = Date.now();
+        checkpointHistory(options, playback);
+      }
+    };
+    
+    let pollTimer: NodeJS.Timeout | undefined;
+    if (player.capabilities.progress) {
+      ipc.connect().catch(() => {
+        if (!finished) {
+          console.log(`⚠️ Could not connect to ${player.displayName} for progress tracking`);
+        }
+      });
+      pollTimer = setInterval(poll, PROGRESS_POLL_INTERVAL_MS);
+    }
+    
+    let result: ProcessResult;
+    try {
+      result = await exited;
+    } finally {
+      finished = true;
+      clearInterval(pollTimer);
+      ipc.close();
     }
     
-    const downloadCommand = `${downloader} -o "${filename}" "${url}"`;
-    console.log(`⬇️ Starting download with ${downloader}...`);
+    console.log(`\n🔚 ${player.displayName} ${formatExitStatus(result)}`);
     
-    await execAsync(downloadCommand);
-    console.log('✅ Download completed!');
+    const finalProgress = toPlaybackProgress(timePos, duration);
+    console.log(`📊 Final progress: ${finalProgress.progress}%`);
+    console.log(`⏱️ Watched: ${finalProgress.timePos}s / ${finalProgress.duration}s`);
+    
+    // The final position is saved by the caller
+    if (process.platform !== 'win32') fs.rmSync(socketPath, { force: true });
+    
+    if (result.code === 0) {
+      console.log('✅ Video playback finished normally');
+    } else if (!result.signal) {
+      console.log(`⚠️ ${player.displayName} ${formatExitStatus(result)}`);
+    }
+    
+    return finalProgress;
     
   } catch (error) {
-    console.error('Error downloading video:', error);
+    console.error('Error playing video:', error);
+    return { progress: 0, timePos: 0, duration: 0 };
   }
 }
@@ -0,0 +1,197 @@
+/**
+ * Video player adapters: how to find and launch each supported player
+ */
+
+import fs from 'fs';
+import { getConfig } from '../utils/config.js';
+import { commandExists, splitCommandLine } from '../utils/process.js';
+
+export interface PlayerCapabilities {
+  resume: boolean; // can start at a given position
+  progress: boolean; // reports playback position over mpv JSON IPC
+  windowTitle: boolean; // can show a custom window title
+  subtitles: boolean; // can load external subtitle files and pick subtitle/audio languages
+}
+
+export interface PlayerLaunchOptions {
+  url: string;
+  title?: string;
+  startTime?: number;
+  ipcSocketPath?: string; // only passed when capabilities.progress is true
+  subtitleFiles?: string[]; // URLs or paths, most preferred first
+  subtitleLanguages?: string[];
+  audioLanguages?: string[];
+}
+
+export interface PlayerAdapter {
+  name: string;
+  displayName: string;
+  capabilities: PlayerCapabilities;
+  installHint: string[];
+  /**
+   * Find the player executable, or null if it isn't installed
+   */
+  findExecutable(): Promise<string | null>;
+  /**
+   * Build the argument list for playing a URL
+   */
+  buildArgs(options: PlayerLaunchOptions): string[];
+}
+
+/**
+ * Find the first candidate that is an existing file or a command on PATH
+ */
+async function findFirstExecutable(candidates: string[]): Promise<string | null> {
+  for (const candidate of candidates) {
+    if (candidate.includes('/') || candidate.includes('\\')) {
+      if (fs.existsSync(candidate)) return candidate;
+      continue;
+    }
+
+    if (await commandExists(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Arguments shared by mpv and players built on it
+ */
+function mpvArgs(options: PlayerLaunchOptions, prefix: string = '--'): string[] {
+  const args: string[] = [];
+  if (options.startTime) args.push(`${prefix}start=${options.startTime}`);
+  if (options.title) args.push(`${prefix}force-media-title=${options.title}`);
+  if (options.ipcSocketPath) args.push(`${prefix}input-ipc-server=${options.ipcSocketPath}`);
+  for (const file of options.subtitleFiles || []) args.push(`${prefix}sub-file=${file}`);
+  if (options.subtitleLanguages?.length) args.push(`${prefix}slang=${options.subtitleLanguages.join(',')}`);
+  if (options.audioLanguages?.length) args.push(`${prefix}alang=${options.audioLanguages.join(',')}`);
+  args.push(`${prefix}cache=yes`, `${prefix}demuxer-max-bytes=50M`, `${prefix}demuxer-max-back-bytes=25M`);
+  return args;
+}
+
+const mpvAdapter: PlayerAdapter = {
+  name: 'mpv',
+  displayName: 'MPV',
+  capabilities: { resume: true, progress: true, windowTitle: true, subtitles: true },
+  installHint: [
+    'Ubuntu/Debian: sudo apt install mpv',
+    'macOS: brew install mpv',
+    'Windows: Download from https://mpv.io/installation/'
+  ],
+  findExecutable: () => findFirstExecutable(['mpv']),
+  buildArgs: (options) => [options.url, ...mpvArgs(options)]
+};
+
+const mpvNetAdapter: PlayerAdapter = {
+  name: 'mpvnet',
+  displayName: 'mpv.net',
+  capabilities: { resume: true, progress: true, windowTitle: true, subtitles: true },
+  installHint: ['Windows: winget install mpv.net, or download from https://github.com/mpvnet-player/mpv.net'],
+  findExecutable: () => findFirstExecutable(['mpvnet']),
+  buildArgs: (options) => [options.url, ...mpvArgs(options)]
+};
+
+const iinaAdapter: PlayerAdapter = {
+  name: 'iina',
+  displayName: 'IINA',
+  capabilities: { resume: true, progress: true, windowTitle: true, subtitles: true },
+  installHint: ['macOS: brew install --cask iina'],
+  findExecutable: () => findFirstExecutable(['iina', '/Applications/IINA.app/Contents/MacOS/iina-cli']),
+  // IINA passes --mpv-* options through to its mpv core; --keep-running waits for the window to close
+  buildArgs: (options) => ['--keep-running', options.url, ...mpvArgs(options, '--mpv-')]
+};
+
+const vlcAdapter: PlayerAdapter = {
+  name: 'vlc',
+  displayName: 'VLC',
+  capabilities: { resume: true, progress: false, windowTitle: true, subtitles: true },
+  installHint: [
+    'Ubuntu/Debian: sudo apt install vlc',
+    'macOS: brew install --cask vlc',
+    'Windows: Download from https://www.videolan.org/vlc/'
+  ],
+  findExecutable: () => findFirstExecutable([
+    'vlc',
+    '/Applications/VLC.app/Contents/MacOS/VLC',
+    'C:\\Program Files\\VideoLAN\\VLC\\vlc.exe',
+    'C:\\Program Files (x86)\\VideoLAN\\VLC\\vlc.exe'
+  ]),
+  buildArgs: (options) => {
+    const args = [options.url, '--play-and-exit'];
+    if (options.startTime) args.push(`--start-time=${options.startTime}`);
+    if (options.title) args.push(`--meta-title=${options.title}`);
+    // VLC only takes one external subtitle file
+    if (options.subtitleFiles?.length) args.push(`--sub-file=${options.subtitleFiles[0]}`);
+    if (options.subtitleLanguages?.length) args.push(`--sub-language=${options.subtitleLanguages.join(',')}`);
+    if (options.audioLanguages?.length) args.push(`--audio-language=${options.audioLanguages.join(',')}`);
+    return args;
+  }
+};
+
+const BUILT_IN_PLAYERS: Record<string, PlayerAdapter> = {
+  'mpv': mpvAdapter,
+  'mpvnet': mpvNetAdapter,
+  'mpv.net': mpvNetAdapter,
+  'iina': iinaAdapter,
+  'vlc': vlcAdapter
+};
+
+/**
+ * Adapter for any other player executable: it just receives the URL
+ */
+function createGenericAdapter(executable: string): PlayerAdapter {
+  return {
+    name: executable,
+    displayName: executable,
+    capabilities: { resume: false, progress: false, windowTitle: false, subtitles: false },
+    installHint: [`Make sure "${executable}" is installed and on your PATH`],
+    findExecutable: () => findFirstExecutable([executable]),
+    buildArgs: (options) => [options.url]
+  };
+}
+
+/**
+ * Adapter for a user-defined command template such as `celluloid --mpv-start={start} {url}`.
+ * Placeholders are substituted per argument, so values are never interpreted by a shell.
+ */
+function createTemplateAdapter(template: string): PlayerAdapter {
+  const [executable, ...templateArgs] = splitCommandLine(template);
+
+  return {
+    name: 'custom',
+    displayName: executable,
+    capabilities: {
+      resume: template.includes('{start}'),
+      progress: false,
+      windowTitle: template.includes('{title}'),
+      subtitles: false
+    },
+    installHint: [`Make sure "${executable}" from your preferredPlayer template is installed`],
+    findExecutable: () => findFirstExecutable([executable]),
+    buildArgs: (options) => {
+      const values: Record<string, string> = {
+        url: options.url,
+        title: options.title || '',
+        start: String(Math.floor(options.startTime || 0))
+      };
+      // One pass with a function replacer, so "$&" or a "{start}" inside a title or URL is kept as it is
+      return templateArgs.map(arg => arg.replace(/\{(url|title|start)\}/g, (_token, name: string) => values[name]));
+    }
+  };
+}
+
+/**
+ * Get the adapter for a preferredPlayer value: a built-in player name,
+ * a command template containing {url}, or any other executable name
+ */
+export function getPlayerAdapter(preferredPlayer: string): PlayerAdapter {
+  const value = preferredPlayer.trim();
+  if (value.includes('{url}')) return createTemplateAdapter(value);
+  return BUILT_IN_PLAYERS[value.toLowerCase()] || createGenericAdapter(value);
+}
+
+/**
+ * Get the adapter for the configured player
+ */
+export function getConfiguredPlayer(): PlayerAdapter {
+  return getPlayerAdapter(getConfig().preferredPlayer);
+}
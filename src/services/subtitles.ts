@@ -0,0 +1,100 @@
+/**
+ * External subtitle tracks: language preferences and sidecar files for downloads
+ */
+
+import fetch from 'node-fetch';
+import fs from 'fs';
+import path from 'path';
+import { SubtitleTrack } from './api.js';
+import { DEFAULT_USER_AGENT, HttpError } from './http.js';
+import { sanitizeFilename } from '../utils/fileUtils.js';
+
+const SUBTITLE_EXTENSIONS = ['.ass', '.srt', '.vtt'];
+
+/**
+ * Check whether a language code matches a preference; "en" matches "en-us"
+ */
+function matchesLanguage(language: string, preferred: string): boolean {
+  return language === preferred || language.startsWith(`${preferred}-`);
+}
+
+/**
+ * Order tracks by language preference (most preferred first), keeping the API order otherwise
+ */
+export function orderSubtitleTracks(tracks: SubtitleTrack[], languages: string[]): SubtitleTrack[] {
+  const rank = (track: SubtitleTrack) => {
+    const index = languages.findIndex(language => matchesLanguage(track.language, language));
+    return index === -1 ? languages.length : index;
+  };
+  return tracks
+    .map((track, index) => ({ track, index }))
+    .sort((a, b) => rank(a.track) - rank(b.track) || a.index - b.index)
+    .map(({ track }) => track);
+}
+
+/**
+ * Get the sidecar file paths for a video's subtitle tracks, e.g. "S1E1 - Title.tr.ass".
+ * Players load files named like this automatically and read the language from the last
+ * part of the name, so labels and numbers for extra tracks go before it ("Title.Signs.en.ass").
+ */
+export function getSubtitleSidecarPaths(videoPath: string, tracks: SubtitleTrack[]): string[] {
+  const base = videoPath.slice(0, videoPath.length - path.extname(videoPath).length);
+  const used = new Set<string>();
+
+  return tracks.map(track => {
+    const label = track.label ? `${sanitizeFilename(track.label).replace(/\./g, '_')}.` : '';
+    let suffix = `${label}${track.language}.${track.format}`;
+    for (let n = 2; used.has(suffix); n++) {
+      suffix = `${label}${n}.${track.language}.${track.format}`;
+    }
+    used.add(suffix);
+    return `${base}.${suffix}`;
+  });
+}
+
+/**
+ * List the subtitle sidecar files next to a downloaded video
+ */
+export function findSidecarSubtitles(videoPath: string): string[] {
+  const dir = path.dirname(videoPath);
+  const prefix = `${path.basename(videoPath, path.extname(videoPath))}.`;
+
+  try {
+    return fs.readdirSync(dir)
+      .filter(file => file.startsWith(prefix) && SUBTITLE_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+      .map(file => path.join(dir, file));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save subtitle tracks next to a video. Existing sidecars are kept; failures are returned
+ * as messages instead of thrown, since the video itself is still usable without them.
+ */
+export async function downloadSubtitleFiles(tracks: SubtitleTrack[], videoPath: string): Promise<{ saved: string[]; failed: string[] }> {
+  const saved: string[] = [];
+  const failed: string[] = [];
+  const sidecarPaths = getSubtitleSidecarPaths(videoPath, tracks);
+
+  for (const [index, track] of tracks.entries()) {
+    const filePath = sidecarPaths[index];
+    if (fs.existsSync(filePath)) continue;
+
+    try {
+      const response = await fetch(track.url, { headers: { 'User-Agent': DEFAULT_USER_AGENT } });
+      if (!response.ok) {
+        throw new HttpError(track.url, response.status, response.statusText);
+      }
+
+      const tempFile = `${filePath}.${process.pid}.tmp`;
+      fs.writeFileSync(tempFile, Buffer.from(await response.arrayBuffer()));
+      fs.renameSync(tempFile, filePath);
+      saved.push(filePath);
+    } catch (error) {
+      failed.push(`${path.basename(filePath)}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return { saved, failed };
+}
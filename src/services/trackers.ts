@@ -0,0 +1,368 @@
+/**
+ * Anime list trackers: keep AniList and MyAnimeList progress in sync with what you watch
+ *
+ * Endpoints can be pointed at a local stub with OPENANIME_ANILIST_URL,
+ * OPENANIME_MAL_API_URL and OPENANIME_MAL_AUTH_URL.
+ */
+
+import crypto from 'crypto';
+import { HttpClient, HttpError } from './http.js';
+import { getConfig } from '../utils/config.js';
+import {
+  TrackerName, TrackerAccount, TrackerUpdate, QueuedTrackerUpdate,
+  getTrackerAccounts, saveTrackerAccount, getTrackerQueue, saveTrackerQueue, queueTrackerUpdate
+} from '../utils/trackerStore.js';
+
+export type TrackerUpdateResult = 'updated' | 'unchanged';
+
+/**
+ * A login in progress: open the URL, then pass what the user pasted to complete()
+ */
+export interface TrackerLogin {
+  url: string;
+  instructions: string;
+  complete(input: string): Promise<TrackerAccount>;
+}
+
+export interface TrackerService {
+  readonly name: TrackerName;
+  readonly displayName: string;
+  startLogin(): TrackerLogin;
+  getUsername(account: TrackerAccount): Promise<string>;
+  updateProgress(account: TrackerAccount, update: TrackerUpdate): Promise<TrackerUpdateResult>;
+}
+
+/**
+ * Thrown when a tracker can't be used until the user logs in (again) or configures it
+ */
+export class TrackerAuthError extends Error {
+  constructor(public readonly tracker: TrackerName, message: string) {
+    super(message);
+    this.name = 'TrackerAuthError';
+  }
+}
+
+/**
+ * Get a value from text pasted by the user: either the value itself or a URL that carries it
+ * as a query (?code=...) or fragment (#access_token=...) parameter
+ */
+function extractParam(input: string, name: string): string {
+  const trimmed = input.trim();
+  const match = trimmed.match(new RegExp(`[?#&]${name}=([^&#\\s]+)`));
+  return match ? decodeURIComponent(match[1]) : trimmed;
+}
+
+/**
+ * Turn 401 responses into TrackerAuthError so callers can ask for a new login
+ */
+async function withAuthCheck<T>(tracker: TrackerName, displayName: string, request: () => Promise<T>): Promise<T> {
+  try {
+    return await request();
+  } catch (error) {
+    if (error instanceof HttpError && error.status === 401) {
+      throw new TrackerAuthError(tracker, `${displayName} rejected the access token, run "openanime tracker login ${tracker}"`);
+    }
+    throw error;
+  }
+}
+
+interface AniListResponse<T> {
+  data?: T;
+  errors?: Array<{ message: string }>;
+}
+
+interface AniListMedia {
+  Media: {
+    id: number;
+    episodes: number | null;
+    mediaListEntry: { progress: number; status: string } | null;
+  } | null;
+}
+
+/**
+ * AniList over its GraphQL API; logins use the implicit grant (the user pastes the token)
+ */
+class AniListTracker implements TrackerService {
+  readonly name = 'anilist';
+  readonly displayName = 'AniList';
+
+  private getClient(): HttpClient {
+    return new HttpClient({ baseUrl: process.env.OPENANIME_ANILIST_URL || 'https://graphql.anilist.co' });
+  }
+
+  private async query<T>(account: TrackerAccount, query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    const response = await withAuthCheck(this.name, this.displayName, () =>
+      this.getClient().sendJson<AniListResponse<T>>('POST', '', {
+        json: { query, variables },
+        headers: { Authorization: `Bearer ${account.accessToken}` }
+      })
+    );
+    if (response.errors?.length || !response.data) {
+      throw new Error(`AniList: ${response.errors?.[0]?.message || 'empty response'}`);
+    }
+    return response.data;
+  }
+
+  startLogin(): TrackerLogin {
+    const clientId = getConfig().anilistClientId;
+    if (!clientId) {
+      throw new TrackerAuthError(this.name, 'Set anilistClientId first: create a client at https://anilist.co/settings/developer');
+    }
+
+    return {
+      url: `https://anilist.co/api/v2/oauth/authorize?client_id=${encodeURIComponent(clientId)}&response_type=token`,
+      instructions: 'Authorize the app, then paste the access token (or the whole URL you were redirected to)',
+      complete: async (input) => {
+        const account: TrackerAccount = { accessToken: extractParam(input, 'access_token'), connectedAt: new Date().toISOString() };
+        account.username = await this.getUsername(account);
+        return account;
+      }
+    };
+  }
+
+  async getUsername(account: TrackerAccount): Promise<string> {
+    const data = await this.query<{ Viewer: { name: string } }>(account, 'query { Viewer { name } }');
+    return data.Viewer.name;
+  }
+
+  async updateProgress(account: TrackerAccount, update: TrackerUpdate): Promise<TrackerUpdateResult> {
+    const { Media: media } = await this.query<AniListMedia>(account,
+      'query ($idMal: Int) { Media(idMal: $idMal, type: ANIME) { id episodes mediaListEntry { progress status } } }',
+      { idMal: update.malId }
+    );
+    if (!media) throw new Error(`AniList has no anime with MAL id ${update.malId}`);
+
+    // Never move progress backwards, e.g. when rewatching an episode
+    if (media.mediaListEntry && media.mediaListEntry.progress >= update.episodeNumber) return 'unchanged';
+
+    const status = media.episodes && update.episodeNumber >= media.episodes ? 'COMPLETED' : 'CURRENT';
+    await this.query(account,
+      'mutation ($mediaId: Int, $progress: Int, $status: MediaListStatus) { SaveMediaListEntry(mediaId: $mediaId, progress: $progress, status: $status) { id } }',
+      { mediaId: media.id, progress: update.episodeNumber, status }
+    );
+    return 'updated';
+  }
+}
+
+interface MalTokenResponse {
+  access_token: string;
+  refresh_token: string;
+  expires_in: number; // seconds
+}
+
+interface MalAnime {
+  num_episodes?: number;
+  my_list_status?: { num_episodes_watched: number; status: string };
+}
+
+const isMalTokenResponse = (value: unknown): value is MalTokenResponse =>
+  typeof value === 'object' && value !== null && typeof (value as MalTokenResponse).access_token === 'string';
+
+/**
+ * MyAnimeList over its v2 API; logins use the authorization code flow with a PKCE verifier
+ */
+class MyAnimeListTracker implements TrackerService {
+  readonly name = 'mal';
+  readonly displayName = 'MyAnimeList';
+
+  private getApiClient(): HttpClient {
+    return new HttpClient({ baseUrl: process.env.OPENANIME_MAL_API_URL || 'https://api.myanimelist.net/v2' });
+  }
+
+  private getAuthClient(): HttpClient {
+    return new HttpClient({ baseUrl: process.env.OPENANIME_MAL_AUTH_URL || 'https://myanimelist.net/v1/oauth2' });
+  }
+
+  private getClientId(): string {
+    const clientId = getConfig().malClientId;
+    if (!clientId) {
+      throw new TrackerAuthError(this.name, 'Set malClientId first: create an app at https://myanimelist.net/apiconfig');
+    }
+    return clientId;
+  }
+
+  private toAccount(tokens: MalTokenResponse, previous?: TrackerAccount): TrackerAccount {
+    return {
+      ...previous,
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token,
+      expiresAt: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+      connectedAt: previous?.connectedAt || new Date().toISOString()
+    };
+  }
+
+  /**
+   * Refresh the access token shortly before it expires, storing the new tokens
+   */
+  private async ensureFreshToken(account: TrackerAccount): Promise<TrackerAccount> {
+    if (!account.refreshToken || !account.expiresAt || Date.parse(account.expiresAt) - Date.now() > 60000) {
+      return account;
+    }
+
+    const tokens = await withAuthCheck(this.name, this.displayName, () =>
+      this.getAuthClient().sendJson('POST', 'token', {
+        form: { client_id: this.getClientId(), grant_type: 'refresh_token', refresh_token: account.refreshToken! },
+        validate: isMalTokenResponse
+      })
+    );
+    const refreshed = this.toAccount(tokens, account);
+    saveTrackerAccount(this.name, refreshed);
+    return refreshed;
+  }
+
+  private authHeaders(account: TrackerAccount): Record<string, string> {
+    return { Authorization: `Bearer ${account.accessToken}` };
+  }
+
+  startLogin(): TrackerLogin {
+    const clientId = this.getClientId();
+    const verifier = crypto.randomBytes(48).toString('base64url');
+
+    return {
+      url: `${this.getAuthClient().buildUrl('authorize')}?${new URLSearchParams({
+        response_type: 'code',
+        client_id: clientId,
+        code_challenge: verifier,
+        code_challenge_method: 'plain'
+      })}`,
+      instructions: 'Authorize the app, then paste the URL you were redirected to (or just its code parameter)',
+      complete: async (input) => {
+        const tokens = await this.getAuthClient().sendJson('POST', 'token', {
+          form: { client_id: clientId, grant_type: 'authorization_code', code: extractParam(input, 'code'), code_verifier: verifier },
+          validate: isMalTokenResponse
+        });
+        const account = this.toAccount(tokens);
+        account.username = await this.getUsername(account);
+        return account;
+      }
+    };
+  }
+
+  async getUsername(account: TrackerAccount): Promise<string> {
+    const fresh = await this.ensureFreshToken(account);
+    const user = await withAuthCheck(this.name, this.displayName, () =>
+      this.getApiClient().getJson<{ name: string }>('users/@me', { headers: this.authHeaders(fresh) })
+    );
+    return user.name;
+  }
+
+  async updateProgress(account: TrackerAccount, update: TrackerUpdate): Promise<TrackerUpdateResult> {
+    const fresh = await this.ensureFreshToken(account);
+    const anime = await withAuthCheck(this.name, this.displayName, () =>
+      this.getApiClient().getJson<MalAnime>(`anime/${update.malId}`, {
+        query: { fields: 'num_episodes,my_list_status' },
+        headers: this.authHeaders(fresh)
+      })
+    );
+
+    // Never move progress backwards, e.g. when rewatching an episode
+    if (anime.my_list_status && anime.my_list_status.num_episodes_watched >= update.episodeNumber) return 'unchanged';
+
+    const status = anime.num_episodes && update.episodeNumber >= anime.num_episodes ? 'completed' : 'watching';
+    await withAuthCheck(this.name, this.displayName, () =>
+      this.getApiClient().sendJson('PATCH', `anime/${update.malId}/my_list_status`, {
+        form: { num_watched_episodes: String(update.episodeNumber), status },
+        headers: this.authHeaders(fresh)
+      })
+    );
+    return 'updated';
+  }
+}
+
+const TRACKERS: Record<TrackerName, TrackerService> = {
+  anilist: new AniListTracker(),
+  mal: new MyAnimeListTracker()
+};
+
+/**
+ * Check whether a string names a supported tracker
+ */
+export function isTrackerName(name: string): name is TrackerName {
+  return Object.prototype.hasOwnProperty.call(TRACKERS, name);
+}
+
+/**
+ * Get the names of all supported trackers
+ */
+export function getTrackerNames(): TrackerName[] {
+  return Object.keys(TRACKERS) as TrackerName[];
+}
+
+/**
+ * Get a tracker by name
+ */
+export function getTracker(name: TrackerName): TrackerService {
+  return TRACKERS[name];
+}
+
+/**
+ * Send one update, returning an error message on failure
+ */
+async function sendUpdate(name: TrackerName, account: TrackerAccount, update: TrackerUpdate): Promise<{ result?: TrackerUpdateResult; error?: string }> {
+  try {
+    return { result: await TRACKERS[name].updateProgress(account, update) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Retry queued updates for logged-in trackers. Updates that still fail stay queued.
+ */
+export async function flushTrackerQueue(): Promise<{ synced: QueuedTrackerUpdate[]; failed: QueuedTrackerUpdate[] }> {
+  const queue = getTrackerQueue();
+  const synced: QueuedTrackerUpdate[] = [];
+  const remaining: QueuedTrackerUpdate[] = [];
+
+  for (const item of queue) {
+    // Read the account for each update: an earlier one may have refreshed and stored its tokens
+    const account = getTrackerAccounts()[item.tracker];
+    if (!account) {
+      remaining.push(item);
+      continue;
+    }
+
+    const { error } = await sendUpdate(item.tracker, account, item);
+    if (error) {
+      remaining.push({ ...item, attempts: item.attempts + 1, lastError: error });
+    } else {
+      synced.push(item);
+    }
+  }
+
+  if (queue.length > 0) saveTrackerQueue(remaining);
+  return { synced, failed: remaining };
+}
+
+/**
+ * Update the progress of a finished episode on every logged-in tracker.
+ * Failed updates are queued for `openanime tracker sync`.
+ */
+export async function syncEpisodeProgress(update: TrackerUpdate): Promise<void> {
+  if (!getConfig().enableTrackerSync) return;
+
+  const names = getTrackerNames().filter(name => getTrackerAccounts()[name]);
+  if (names.length === 0) return;
+
+  // Earlier failures go first so progress arrives in order
+  if (getTrackerQueue().length > 0) {
+    await flushTrackerQueue();
+  }
+
+  // Read the accounts after the flush, which may have refreshed their tokens
+  const accounts = getTrackerAccounts();
+  for (const name of names) {
+    const account = accounts[name];
+    if (!account) continue;
+
+    const { displayName } = TRACKERS[name];
+    const { result, error } = await sendUpdate(name, account, update);
+
+    if (error) {
+      queueTrackerUpdate(name, update, error);
+      console.log(`⚠️ Could not update ${displayName} (${error}); queued for "openanime tracker sync"`);
+    } else if (result === 'updated') {
+      console.log(`📈 ${displayName}: ${update.title} progress set to episode ${update.episodeNumber}`);
+    }
+  }
+}
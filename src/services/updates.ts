@@ -0,0 +1,76 @@
+/**
+ * New-episode checks for followed anime: season episode counts compared with the last check
+ */
+
+import { AnimeDetail, getApiService } from './api.js';
+import { FollowedAnime } from '../utils/followStore.js';
+
+export interface NewEpisode {
+  seasonNumber: number;
+  episodeNumber: number;
+}
+
+export interface UpdateCheck {
+  anime: FollowedAnime;
+  detail: AnimeDetail | null; // null if the anime couldn't be fetched
+  newEpisodes: NewEpisode[]; // by season and episode
+  firstCheck: boolean; // no counts were recorded before, so nothing counts as new yet
+}
+
+/**
+ * Get the episode count of each season of an anime
+ */
+export function getEpisodeCounts(animeDetail: AnimeDetail): Record<string, number> {
+  return Object.fromEntries(animeDetail.seasons.map(season => [String(season.season_number), season.episode_count]));
+}
+
+/**
+ * Find the episodes beyond the recorded counts. Seasons that weren't there before are new from
+ * episode 1; seasons whose count went down (re-numbered by the source) are ignored.
+ */
+export function findNewEpisodes(recordedCounts: Record<string, number>, animeDetail: AnimeDetail): NewEpisode[] {
+  const newEpisodes: NewEpisode[] = [];
+  const seasons = [...animeDetail.seasons].sort((a, b) => a.season_number - b.season_number);
+
+  for (const season of seasons) {
+    const recorded = recordedCounts[String(season.season_number)] ?? 0;
+    for (let episodeNumber = recorded + 1; episodeNumber <= season.episode_count; episodeNumber++) {
+      newEpisodes.push({ seasonNumber: season.season_number, episodeNumber });
+    }
+  }
+
+  return newEpisodes;
+}
+
+/**
+ * Check followed anime for new episodes, one at a time to go easy on the API
+ */
+export async function checkForUpdates(followed: FollowedAnime[]): Promise<UpdateCheck[]> {
+  const checks: UpdateCheck[] = [];
+
+  for (const anime of followed) {
+    const detail = await getApiService().getAnimeDetail(anime.slug);
+    const firstCheck = Object.keys(anime.episodeCounts).length === 0;
+    checks.push({
+      anime,
+      detail,
+      newEpisodes: detail && !firstCheck ? findNewEpisodes(anime.episodeCounts, detail) : [],
+      firstCheck
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Get the counts to record after a check. Episodes that failed to download are left
+ * out (with the ones after them in that season), so the next check finds them again.
+ */
+export function getCheckedEpisodeCounts(animeDetail: AnimeDetail, failed: NewEpisode[] = []): Record<string, number> {
+  const counts = getEpisodeCounts(animeDetail);
+  for (const episode of failed) {
+    const season = String(episode.seasonNumber);
+    counts[season] = Math.min(counts[season] ?? 0, episode.episodeNumber - 1);
+  }
+  return counts;
+}
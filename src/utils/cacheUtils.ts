@@ -0,0 +1,113 @@
+/**
+ * On-disk cache for API responses
+ */
+
+import { getAppDataDir, ensureDir } from './fileUtils.js';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export interface CacheEntry<T> {
+  key: string;
+  storedAt: number; // epoch milliseconds
+  data: T;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  directory: string;
+}
+
+const CACHE_DIR = path.join(getAppDataDir(), 'cache');
+
+/**
+ * Get the cache file path for a key
+ */
+function getCacheFile(key: string): string {
+  const hash = crypto.createHash('sha1').update(key).digest('hex');
+  return path.join(CACHE_DIR, `${hash}.json`);
+}
+
+/**
+ * Read a cache entry regardless of its age
+ */
+export function readCache<T>(key: string): CacheEntry<T> | null {
+  try {
+    const cacheFile = getCacheFile(key);
+    if (!fs.existsSync(cacheFile)) return null;
+
+    const entry = JSON.parse(fs.readFileSync(cacheFile, 'utf8')) as CacheEntry<T>;
+    // Guard against hash collisions and corrupted files
+    if (entry.key !== key || typeof entry.storedAt !== 'number') return null;
+
+    return entry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a cache entry
+ */
+export function writeCache<T>(key: string, data: T): CacheEntry<T> {
+  const entry: CacheEntry<T> = { key, storedAt: Date.now(), data };
+
+  try {
+    ensureDir(CACHE_DIR);
+    const cacheFile = getCacheFile(key);
+    const tempFile = `${cacheFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(entry));
+    fs.renameSync(tempFile, cacheFile);
+  } catch (error) {
+    console.error('Error writing cache:', error);
+  }
+
+  return entry;
+}
+
+/**
+ * Check whether a cache entry is younger than the given TTL
+ */
+export function isFresh(entry: CacheEntry<unknown>, ttlMs: number): boolean {
+  return Date.now() - entry.storedAt < ttlMs;
+}
+
+/**
+ * Get the number and total size of cached responses
+ */
+export function getCacheStats(): CacheStats {
+  const stats: CacheStats = { entries: 0, bytes: 0, directory: CACHE_DIR };
+
+  try {
+    if (!fs.existsSync(CACHE_DIR)) return stats;
+
+    for (const file of fs.readdirSync(CACHE_DIR)) {
+      if (!file.endsWith('.json')) continue;
+      stats.entries++;
+      stats.bytes += fs.statSync(path.join(CACHE_DIR, file)).size;
+    }
+  } catch (error) {
+    console.error('Error reading cache:', error);
+  }
+
+  return stats;
+}
+
+/**
+ * Delete all cached responses, returning how many were removed
+ */
+export function clearCache(): number {
+  try {
+    if (!fs.existsSync(CACHE_DIR)) return 0;
+
+    const files = fs.readdirSync(CACHE_DIR);
+    for (const file of files) {
+      fs.unlinkSync(path.join(CACHE_DIR, file));
+    }
+    return files.length;
+  } catch (error) {
+    console.error('Error clearing cache:', error);
+    return 0;
+  }
+}
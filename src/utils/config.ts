@@ -2,45 +2,299 @@
  * Configuration management
  */
 
+import { getAppDataDir, fileExists } from './fileUtils.js';
+import { parseDownloadTemplate, DOWNLOAD_PRESETS } from './downloadTemplate.js';
+import fs from 'fs';
+import path from 'path';
+
 export interface AppConfig {
   defaultQuality: string;
   preferredPlayer: string;
   downloadPath: string;
+  downloadFolderTemplate: string;
+  downloadFileTemplate: string;
   autoPlay: boolean;
   autoPlayNextEpisode: boolean;
   enableHistory: boolean;
   enableDiscordRPC: boolean;
+  apiBaseUrl: string;
+  source: string;
+  downloadConcurrency: number;
+  bingeCountdownSeconds: number;
+  bingeMaxEpisodes: number;
+  bingeMaxMinutes: number;
+  preferredFansubs: string[];
+  enableTrackerSync: boolean;
+  anilistClientId: string;
+  malClientId: string;
+  subtitleLanguages: string[];
+  audioLanguages: string[];
+  downloadSubtitles: boolean;
+  writeNfoFiles: boolean;
 }
 
+export type ConfigKey = keyof AppConfig;
+
 const DEFAULT_CONFIG: AppConfig = {
   defaultQuality: '720p',
   preferredPlayer: 'mpv',
-  downloadPath: './downloads',
+  downloadPath: './downloads', // Relative paths are inside the app data folder (~/.openanime-cli)
+  downloadFolderTemplate: DOWNLOAD_PRESETS.default.folder, // Folders inside downloadPath, or a preset name
+  downloadFileTemplate: DOWNLOAD_PRESETS.default.file, // File name without extension, or a preset name
   autoPlay: false,
   autoPlayNextEpisode: true, // Enable auto-play next episode by default
   enableHistory: true,
-  enableDiscordRPC: true // Discord Rich Presence varsayılan olarak açık
+  enableDiscordRPC: true, // Discord Rich Presence varsayılan olarak açık
+  apiBaseUrl: 'https://api.openani.me',
+  source: 'openanime', // Name of a registered anime source
+  downloadConcurrency: 2, // Parallel downloads for batch downloads
+  bingeCountdownSeconds: 10, // Pause before the next episode; 0 plays it right away
+  bingeMaxEpisodes: 0, // Stop binge watching after this many episodes; 0 = no limit
+  bingeMaxMinutes: 0, // Stop binge watching after this many minutes; 0 = no limit
+  preferredFansubs: [], // Fansub secureNames, most preferred first
+  enableTrackerSync: true, // Update AniList/MAL progress for logged-in trackers
+  anilistClientId: '', // OAuth client for "tracker login anilist"
+  malClientId: '', // OAuth client for "tracker login mal"
+  subtitleLanguages: [], // Language codes like "tr" or "en", most preferred first; empty = player default
+  audioLanguages: [], // Language codes like "ja", most preferred first; empty = player default
+  downloadSubtitles: true, // Save external subtitle tracks next to downloaded episodes
+  writeNfoFiles: true // Save .nfo files and artwork with downloads for Kodi/Jellyfin
+};
+
+const CONFIG_FILE = path.join(getAppDataDir(), 'config.json');
+
+/**
+ * Parse a boolean config value from user input
+ */
+function parseBoolean(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  const normalized = String(value).trim().toLowerCase();
+  if (['true', 'yes', 'on', '1'].includes(normalized)) return true;
+  if (['false', 'no', 'off', '0'].includes(normalized)) return false;
+  throw new Error(`Expected a boolean (true/false), got "${value}"`);
+}
+
+/**
+ * Parse a non-empty string config value
+ */
+function parseString(value: unknown): string {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`Expected a non-empty string, got "${value}"`);
+  }
+  return value.trim();
+}
+
+/**
+ * Parse a string config value that may be left empty
+ */
+function parseOptionalString(value: unknown): string {
+  return String(value ?? '').trim();
+}
+
+/**
+ * Parse a quality string like "720p", "1080" or "best" into a target resolution, or null if it isn't one
+ */
+export function parseQuality(quality: string): number | 'best' | 'worst' | null {
+  const normalized = quality.trim().toLowerCase();
+  if (normalized === 'best' || normalized === 'worst') return normalized;
+  const match = normalized.match(/^(\d{3,4})p?$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Parse a quality config value, normalized to e.g. "720p", "best" or "worst"
+ */
+function parseQualityValue(value: unknown): string {
+  const quality = parseQuality(parseString(value));
+  if (quality === null) {
+    throw new Error(`Expected a resolution like 480p, 720p, 1080p, "best" or "worst", got "${value}"`);
+  }
+  return typeof quality === 'number' ? `${quality}p` : quality;
+}
+
+/**
+ * Parse a list from an array or a comma-separated string; an empty string clears the list
+ */
+function parseStringList(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return items.map(item => String(item).trim().toLowerCase()).filter(item => item !== '');
+}
+
+/**
+ * Create a parser for whole numbers within a range
+ */
+function parseIntegerInRange(min: number, max: number): (value: unknown) => number {
+  return (value: unknown) => {
+    const number = typeof value === 'number' ? value : Number(String(value).trim());
+    if (!Number.isInteger(number) || number < min || number > max) {
+      throw new Error(`Expected a whole number from ${min} to ${max}, got "${value}"`);
+    }
+    return number;
+  };
+}
+
+/**
+ * Parse an http(s) URL config value
+ */
+function parseUrl(value: unknown): string {
+  const url = parseString(value);
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      throw new Error();
+    }
+  } catch {
+    throw new Error(`Expected an http(s) URL, got "${value}"`);
+  }
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Per-field validators; each returns the normalized value or throws
+ */
+const CONFIG_VALIDATORS: { [K in ConfigKey]: (value: unknown) => AppConfig[K] } = {
+  defaultQuality: parseQualityValue,
+  preferredPlayer: parseString,
+  downloadPath: parseString,
+  downloadFolderTemplate: (value: unknown) => parseDownloadTemplate(value, 'folder'),
+  downloadFileTemplate: (value: unknown) => parseDownloadTemplate(value, 'file'),
+  autoPlay: parseBoolean,
+  autoPlayNextEpisode: parseBoolean,
+  enableHistory: parseBoolean,
+  enableDiscordRPC: parseBoolean,
+  apiBaseUrl: parseUrl,
+  source: (value: unknown) => parseString(value).toLowerCase(),
+  downloadConcurrency: parseIntegerInRange(1, 8),
+  bingeCountdownSeconds: parseIntegerInRange(0, 60),
+  bingeMaxEpisodes: parseIntegerInRange(0, 999),
+  bingeMaxMinutes: parseIntegerInRange(0, 1440),
+  preferredFansubs: parseStringList,
+  enableTrackerSync: parseBoolean,
+  anilistClientId: parseOptionalString,
+  malClientId: parseOptionalString,
+  subtitleLanguages: parseStringList,
+  audioLanguages: parseStringList,
+  downloadSubtitles: parseBoolean,
+  writeNfoFiles: parseBoolean
 };
 
+/**
+ * Check whether a string is a known config key
+ */
+export function isConfigKey(key: string): key is ConfigKey {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_CONFIG, key);
+}
+
+/**
+ * Get the list of known config keys
+ */
+export function getConfigKeys(): ConfigKey[] {
+  return Object.keys(DEFAULT_CONFIG) as ConfigKey[];
+}
+
+/**
+ * Get the path of the config file
+ */
+export function getConfigPath(): string {
+  return CONFIG_FILE;
+}
+
+/**
+ * Validate a single config value, returning the normalized value
+ */
+export function validateConfigValue<K extends ConfigKey>(key: K, value: unknown): AppConfig[K] {
+  return CONFIG_VALIDATORS[key](value);
+}
+
+/**
+ * Set one key of a config object, keeping the key and value types together
+ */
+function assignConfigValue<K extends ConfigKey>(config: AppConfig, key: K, value: AppConfig[K]): void {
+  config[key] = value;
+}
+
+/**
+ * Merge raw config data with defaults, dropping unknown keys and invalid values
+ */
+function mergeWithDefaults(raw: Record<string, unknown>): AppConfig {
+  const config: AppConfig = structuredClone(DEFAULT_CONFIG);
+
+  for (const [key, value] of Object.entries(raw)) {
+    if (!isConfigKey(key)) continue;
+
+    try {
+      assignConfigValue(config, key, validateConfigValue(key, value));
+    } catch (error) {
+      console.error(`⚠️ Invalid config value for "${key}", using default:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Read the config file, throwing if it isn't a JSON object. Invalid values still fall back to their defaults.
+ */
+export function readConfigFile(): AppConfig {
+  if (!fileExists(CONFIG_FILE)) {
+    return structuredClone(DEFAULT_CONFIG);
+  }
+
+  const raw = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf8'));
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Config file is not a JSON object');
+  }
+
+  return mergeWithDefaults(raw);
+}
+
 /**
  * Get application configuration
  */
 export function getConfig(): AppConfig {
-  // TODO: Load config from file
-  return DEFAULT_CONFIG;
+  try {
+    return readConfigFile();
+  } catch (error) {
+    console.error('⚠️ Error loading config, using defaults:', error instanceof Error ? error.message : String(error));
+    return structuredClone(DEFAULT_CONFIG);
+  }
 }
 
 /**
  * Save application configuration
  */
 export function saveConfig(config: AppConfig): void {
-  // TODO: Save config to file
-  console.log('Saving config:', config);
+  try {
+    const validated = mergeWithDefaults(config as unknown as Record<string, unknown>);
+    fs.writeFileSync(CONFIG_FILE, JSON.stringify(validated, null, 2));
+  } catch (error) {
+    console.error('Error saving config:', error);
+  }
+}
+
+/**
+ * Set a single config value from user input and persist it
+ */
+export function setConfigValue<K extends ConfigKey>(key: K, value: unknown): AppConfig[K] {
+  const config = getConfig();
+  const validated = validateConfigValue(key, value);
+  config[key] = validated;
+  saveConfig(config);
+  return validated;
 }
 
 /**
  * Reset configuration to defaults
  */
-export function resetConfig(): AppConfig {
-  return { ...DEFAULT_CONFIG };
+export function resetConfig(key?: ConfigKey): AppConfig {
+  if (key) {
+    const config = getConfig();
+    assignConfigValue(config, key, structuredClone(DEFAULT_CONFIG[key]));
+    saveConfig(config);
+    return config;
+  }
+
+  const config = structuredClone(DEFAULT_CONFIG);
+  saveConfig(config);
+  return config;
 }
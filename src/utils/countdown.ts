@@ -0,0 +1,58 @@
+/**
+ * Skippable countdown shown between episodes
+ */
+
+export type CountdownResult = 'continue' | 'cancel';
+
+/**
+ * Count down in place, e.g. "▶️ Next episode in 7s (Enter to play now, Esc to stop)".
+ * Resolves 'continue' when the time runs out or Enter is pressed, and 'cancel' on Esc, Q or Ctrl+C.
+ * Without a terminal the countdown simply runs out.
+ */
+export function countdown(seconds: number, message: string): Promise<CountdownResult> {
+  if (seconds <= 0) return Promise.resolve('continue');
+
+  const input = process.stdin;
+  const interactive = input.isTTY === true;
+
+  return new Promise((resolve) => {
+    let remaining = seconds;
+    const wasRaw = interactive && input.isRaw;
+    const hint = interactive ? ' (Enter to play now, Esc to stop)' : '';
+
+    const render = () => process.stdout.write(`\r${message} in ${remaining}s${hint}  `);
+
+    const finish = (result: CountdownResult) => {
+      clearInterval(timer);
+      if (interactive) {
+        input.off('data', onKey);
+        input.setRawMode(wasRaw);
+        input.pause();
+      }
+      process.stdout.write('\n');
+      resolve(result);
+    };
+
+    const onKey = (key: Buffer) => {
+      const char = key.toString();
+      if (char === '\r' || char === '\n' || char === ' ') finish('continue');
+      else if (char === '\u001b' || char === '\u0003' || char.toLowerCase() === 'q') finish('cancel');
+    };
+
+    const timer = setInterval(() => {
+      remaining--;
+      if (remaining <= 0) {
+        finish('continue');
+      } else {
+        render();
+      }
+    }, 1000);
+
+    if (interactive) {
+      input.setRawMode(true);
+      input.resume();
+      input.on('data', onKey);
+    }
+    render();
+  });
+}
@@ -0,0 +1,85 @@
+/**
+ * Download folder and filename templates, e.g. "{title}/Season {season:02}"
+ */
+
+import { sanitizeFilename } from './fileUtils.js';
+
+export interface DownloadTemplateValues {
+  title: string;
+  romaji: string;
+  slug: string;
+  season: number;
+  episode: number;
+  episodeTitle: string;
+  fansub: string;
+  resolution: string; // e.g. "1080p"
+}
+
+export interface DownloadPreset {
+  folder: string;
+  file: string;
+}
+
+// Plex and Jellyfin both expect "Show/Season 01/Show - S01E01.mp4"
+const MEDIA_SERVER_PRESET: DownloadPreset = {
+  folder: '{title}/Season {season:02}',
+  file: '{title} - S{season:02}E{episode:02}'
+};
+
+export const DOWNLOAD_PRESETS: Record<string, DownloadPreset> = {
+  default: { folder: '{title}', file: 'S{season}E{episode} - {episodeTitle}' },
+  plex: MEDIA_SERVER_PRESET,
+  jellyfin: MEDIA_SERVER_PRESET
+};
+
+const TOKEN_PATTERN = /\{(\w+)(?::(\d+))?\}/g;
+
+/**
+ * Check whether a name is a template token
+ */
+function isToken(name: string): name is keyof DownloadTemplateValues {
+  return ['title', 'romaji', 'slug', 'season', 'episode', 'episodeTitle', 'fansub', 'resolution'].includes(name);
+}
+
+/**
+ * Validate a template, expanding preset names like "plex".
+ * Folder templates may use "/" for subfolders; file templates are a single name without extension.
+ */
+export function parseDownloadTemplate(value: unknown, kind: keyof DownloadPreset): string {
+  const template = String(value ?? '').trim();
+  const preset = DOWNLOAD_PRESETS[template.toLowerCase()];
+  if (preset) return preset[kind];
+
+  if (template === '') {
+    throw new Error(`Expected a template or one of ${Object.keys(DOWNLOAD_PRESETS).join(', ')}`);
+  }
+  if (kind === 'file' && /[/\\]/.test(template)) {
+    throw new Error('File templates can\'t contain folders; use downloadFolderTemplate for those');
+  }
+  if (/^[/\\]|^[a-z]:/i.test(template) || template.split(/[/\\]/).some(part => part.trim() === '..')) {
+    throw new Error('Templates must stay inside downloadPath');
+  }
+
+  for (const [, name] of template.matchAll(TOKEN_PATTERN)) {
+    if (!isToken(name)) {
+      throw new Error(`Unknown template token {${name}}; use {title}, {romaji}, {slug}, {season}, {episode}, {episodeTitle}, {fansub} or {resolution}`);
+    }
+  }
+
+  return template;
+}
+
+/**
+ * Fill in a template. Numbers can be zero-padded with {season:02}; values are made safe for
+ * file names, and each "/" in a folder template starts a new folder.
+ */
+export function renderDownloadTemplate(template: string, values: DownloadTemplateValues): string[] {
+  return template
+    .split(/[/\\]/)
+    .map(part => sanitizeFilename(part.replace(TOKEN_PATTERN, (token, name: string, width?: string) => {
+      if (!isToken(name)) return token;
+      const value = values[name];
+      return typeof value === 'number' && width ? String(value).padStart(parseInt(width, 10), '0') : String(value);
+    })))
+    .filter(part => part !== '' && part !== '.' && part !== '..');
+}
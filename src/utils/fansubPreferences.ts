@@ -0,0 +1,109 @@
+/**
+ * Fansub preferences: the fansub last chosen for each anime and the ranked
+ * preferredFansubs list from the config
+ */
+
+import { getAppDataDir, fileExists } from './fileUtils.js';
+import { getConfig } from './config.js';
+import fs from 'fs';
+import path from 'path';
+
+export interface RememberedFansub {
+  id: string;
+  name: string;
+  secureName: string;
+  chosenAt: string; // ISO date
+}
+
+interface FansubLike {
+  id: string;
+  name: string;
+  secureName?: string;
+}
+
+export interface FansubChoice<T extends FansubLike> {
+  fansub: T | undefined;
+  wanted?: string; // the most preferred fansub, when it isn't available
+}
+
+const PREFERENCES_FILE = path.join(getAppDataDir(), 'fansub-preferences.json');
+
+/**
+ * Load the remembered fansub per anime slug
+ */
+function loadPreferences(): Record<string, RememberedFansub> {
+  try {
+    if (!fileExists(PREFERENCES_FILE)) return {};
+    const data = JSON.parse(fs.readFileSync(PREFERENCES_FILE, 'utf8'));
+    return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+  } catch (error) {
+    console.error('Error loading fansub preferences:', error);
+    return {};
+  }
+}
+
+/**
+ * Get the fansub last chosen for an anime
+ */
+export function getRememberedFansub(slug: string): RememberedFansub | null {
+  return loadPreferences()[slug] || null;
+}
+
+/**
+ * Remember the fansub chosen for an anime
+ */
+export function rememberFansub(slug: string, fansub: FansubLike): void {
+  try {
+    const preferences = loadPreferences();
+    preferences[slug] = {
+      id: fansub.id,
+      name: fansub.name,
+      secureName: fansub.secureName || '',
+      chosenAt: new Date().toISOString()
+    };
+
+    const tempFile = `${PREFERENCES_FILE}.${process.pid}.tmp`;
+    fs.writeFileSync(tempFile, JSON.stringify(preferences, null, 2));
+    fs.renameSync(tempFile, PREFERENCES_FILE);
+  } catch (error) {
+    console.error('Error saving fansub preferences:', error);
+  }
+}
+
+/**
+ * Check whether a fansub matches an id, secureName or name (case-insensitive)
+ */
+function matchesFansub(fansub: FansubLike, query: string): boolean {
+  const normalized = query.toLowerCase();
+  return fansub.id === query
+    || fansub.secureName?.toLowerCase() === normalized
+    || fansub.name.toLowerCase() === normalized;
+}
+
+/**
+ * Pick a fansub for an anime from the ones that released an episode: the one remembered
+ * for the anime first, then the config's preferredFansubs in order.
+ * `wanted` names the top preference when it had to be skipped because it isn't available.
+ */
+export function choosePreferredFansub<T extends FansubLike>(slug: string, fansubs: T[]): FansubChoice<T> {
+  const remembered = getRememberedFansub(slug);
+  const preferences = [
+    ...(remembered ? [remembered.id, remembered.secureName] : []),
+    ...getConfig().preferredFansubs
+  ].filter(Boolean);
+  if (preferences.length === 0) return { fansub: undefined };
+
+  const topChoice = remembered?.name || preferences[0];
+  const isTopChoice = (fansub: T) => remembered
+    ? matchesFansub(fansub, remembered.id) || (remembered.secureName !== '' && matchesFansub(fansub, remembered.secureName))
+    : matchesFansub(fansub, preferences[0]);
+
+  for (const preference of preferences) {
+    const fansub = fansubs.find(f => matchesFansub(f, preference));
+    if (fansub) {
+      return { fansub, wanted: isTopChoice(fansub) ? undefined : topChoice };
+    }
+  }
+
+  return { fansub: undefined, wanted: topChoice };
+}
@@ -26,13 +26,16 @@ export function ensureDir(dirPath: string): void {
 }
 
 /**
- * Sanitize filename for safe file system operations
+ * Sanitize filename for safe file system operations.
+ * Characters that aren't allowed on Windows become underscores; spaces are kept.
  */
 export function sanitizeFilename(filename: string): string {
   return filename
-    .replace(/[<>:"/\\|?*]/g, '_')
-    .replace(/\s+/g, '_')
-    .trim();
+    .replace(/[<>:"/\\|?*\x00-\x1f]/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    // Windows drops trailing dots and spaces, which would make the name differ from what we wrote
+    .replace(/[. ]+$/, '');
 }
 
 /**
@@ -0,0 +1,87 @@
+/**
+ * Followed anime and the episode counts last seen for each, used to find new episodes
+ */
+
+import { getAppDataDir, fileExists } from './fileUtils.js';
+import { getWatchHistory } from './historyUtils.js';
+import fs from 'fs';
+import path from 'path';
+
+export interface FollowedAnime {
+  slug: string;
+  animeId: string;
+  title: string;
+  followedAt: string; // ISO date
+  episodeCounts: Record<string, number>; // by season number; empty until the first check
+  checkedAt?: string; // ISO date
+}
+
+const FOLLOWS_FILE = path.join(getAppDataDir(), 'follows.json');
+
+/**
+ * Start the list from every anime in the watch history. Their episode counts are
+ * recorded on the first check, so only episodes released after that count as new.
+ */
+function seedFromHistory(): FollowedAnime[] {
+  const followed = new Map<string, FollowedAnime>();
+  for (const entry of getWatchHistory()) {
+    if (!entry.animeSlug || followed.has(entry.animeSlug)) continue;
+    followed.set(entry.animeSlug, {
+      slug: entry.animeSlug,
+      animeId: entry.animeId,
+      title: entry.animeTitle,
+      followedAt: new Date().toISOString(),
+      episodeCounts: {}
+    });
+  }
+  return Array.from(followed.values());
+}
+
+/**
+ * Get the followed anime. Before the list is first saved it is seeded from the watch history.
+ */
+export function getFollowedAnime(): FollowedAnime[] {
+  try {
+    if (!fileExists(FOLLOWS_FILE)) return seedFromHistory();
+    const data = JSON.parse(fs.readFileSync(FOLLOWS_FILE, 'utf8'));
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    console.error('Error loading followed anime:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace the followed anime
+ */
+export function saveFollowedAnime(followed: FollowedAnime[]): void {
+  const tempFile = `${FOLLOWS_FILE}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(followed, null, 2));
+  fs.renameSync(tempFile, FOLLOWS_FILE);
+}
+
+/**
+ * Find a followed anime by slug
+ */
+export function findFollowedAnime(slug: string): FollowedAnime | undefined {
+  return getFollowedAnime().find(anime => anime.slug === slug);
+}
+
+/**
+ * Follow an anime, or update it if it is already followed
+ */
+export function followAnime(anime: FollowedAnime): void {
+  const followed = getFollowedAnime().filter(item => item.slug !== anime.slug);
+  saveFollowedAnime([...followed, anime]);
+}
+
+/**
+ * Stop following an anime; returns false if it wasn't followed
+ */
+export function unfollowAnime(slug: string): boolean {
+  const followed = getFollowedAnime();
+  const remaining = followed.filter(anime => anime.slug !== slug);
+  if (remaining.length === followed.length) return false;
+  saveFollowedAnime(remaining);
+  return true;
+}
@@ -0,0 +1,223 @@
+/**
+ * Versioned on-disk storage for watch history
+ *
+ * The history file holds one record per episode (never trimmed) and a separate,
+ * bounded feed of recent activity that points at those records.
+ */
+
+import { getAppDataDir, fileExists } from './fileUtils.js';
+import fs from 'fs';
+import path from 'path';
+
+export const HISTORY_SCHEMA_VERSION = 2;
+
+// The activity feed only drives "recently watched" lists; episode records are kept forever
+const MAX_ACTIVITY_EVENTS = 200;
+
+export interface StoredEpisodeRecord {
+  animeId: string;
+  animeTitle: string;
+  animeSlug: string;
+  seasonNumber: number;
+  episodeNumber: number;
+  episodeTitle: string;
+  fansubName: string;
+  watchedAt: string; // ISO date
+  progress: number;
+  timePos: number;
+  duration: number;
+  completedAt?: string; // ISO date, set once the episode counts as watched
+}
+
+export interface ActivityEvent {
+  key: string; // episode record key
+  at: string; // ISO date
+}
+
+export interface HistoryData {
+  version: number;
+  episodes: Record<string, StoredEpisodeRecord>;
+  activity: ActivityEvent[]; // newest first
+}
+
+/**
+ * Thrown when the history file was written by a newer version of the CLI
+ */
+export class HistoryVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(`Watch history uses schema version ${version}, but this version of the CLI only understands up to ${HISTORY_SCHEMA_VERSION}. Please update openanime-cli.`);
+    this.name = 'HistoryVersionError';
+  }
+}
+
+export const HISTORY_FILE = path.join(getAppDataDir(), 'watch-history.json');
+
+/**
+ * Get the key of an episode record
+ */
+export function getEpisodeKey(animeId: string, seasonNumber: number, episodeNumber: number): string {
+  return `${animeId}:${seasonNumber}:${episodeNumber}`;
+}
+
+function createEmptyHistory(): HistoryData {
+  return { version: HISTORY_SCHEMA_VERSION, episodes: {}, activity: [] };
+}
+
+function normalizeRecord(entry: Partial<StoredEpisodeRecord>): StoredEpisodeRecord {
+  return {
+    animeId: String(entry.animeId ?? ''),
+    animeTitle: entry.animeTitle || '',
+    animeSlug: entry.animeSlug || '',
+    seasonNumber: entry.seasonNumber || 0,
+    episodeNumber: entry.episodeNumber || 0,
+    episodeTitle: entry.episodeTitle || '',
+    fansubName: entry.fansubName || 'Unknown',
+    watchedAt: new Date(entry.watchedAt || 0).toISOString(),
+    progress: entry.progress || 0,
+    timePos: entry.timePos || 0,
+    duration: entry.duration || 0,
+    ...(entry.completedAt ? { completedAt: new Date(entry.completedAt).toISOString() } : {})
+  };
+}
+
+/**
+ * Migrate version 1 (a flat array of at most 50 entries, newest first) to version 2
+ */
+function migrateFromV1(entries: Partial<StoredEpisodeRecord>[]): HistoryData {
+  const history = createEmptyHistory();
+
+  for (const entry of entries) {
+    const record = normalizeRecord(entry);
+    const key = getEpisodeKey(record.animeId, record.seasonNumber, record.episodeNumber);
+    const existing = history.episodes[key];
+    if (!existing || existing.watchedAt < record.watchedAt) {
+      history.episodes[key] = record;
+    }
+  }
+
+  history.activity = Object.entries(history.episodes)
+    .map(([key, record]) => ({ key, at: record.watchedAt }))
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .slice(0, MAX_ACTIVITY_EVENTS);
+
+  return history;
+}
+
+/**
+ * Bring parsed file contents up to the current schema version
+ */
+function migrateHistory(data: unknown): HistoryData {
+  if (Array.isArray(data)) {
+    return migrateFromV1(data);
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('Watch history file is not a JSON object');
+  }
+
+  const stored = data as Partial<HistoryData>;
+  const version = typeof stored.version === 'number' ? stored.version : 0;
+  if (version > HISTORY_SCHEMA_VERSION) {
+    throw new HistoryVersionError(version);
+  }
+  if (version !== HISTORY_SCHEMA_VERSION) {
+    throw new Error(`Unknown watch history schema version: ${stored.version}`);
+  }
+
+  return {
+    version: HISTORY_SCHEMA_VERSION,
+    episodes: stored.episodes && typeof stored.episodes === 'object' ? stored.episodes : {},
+    activity: Array.isArray(stored.activity) ? stored.activity : []
+  };
+}
+
+/**
+ * Keep an unreadable file for manual recovery instead of overwriting it
+ */
+function setAsideCorruptFile(error: unknown): void {
+  const backupFile = `${HISTORY_FILE}.corrupt-${Date.now()}`;
+  fs.renameSync(HISTORY_FILE, backupFile);
+  console.error(`⚠️ Watch history could not be read (${error instanceof Error ? error.message : error}); moved it to ${backupFile}`);
+}
+
+/**
+ * Write the history file atomically so a crash mid-write can't corrupt it
+ */
+function writeHistory(history: HistoryData): void {
+  const tempFile = `${HISTORY_FILE}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(history, null, 2));
+  fs.renameSync(tempFile, HISTORY_FILE);
+}
+
+/**
+ * Load the history, migrating older files in place (the original is kept as a backup).
+ * Throws HistoryVersionError for files from a newer CLI, which must not be overwritten.
+ */
+export function loadHistory(): HistoryData {
+  if (!fileExists(HISTORY_FILE)) {
+    return createEmptyHistory();
+  }
+
+  let data: unknown;
+  let history: HistoryData;
+  try {
+    data = JSON.parse(fs.readFileSync(HISTORY_FILE, 'utf8'));
+    history = migrateHistory(data);
+  } catch (error) {
+    if (error instanceof HistoryVersionError) throw error;
+    setAsideCorruptFile(error);
+    return createEmptyHistory();
+  }
+
+  if (Array.isArray(data)) {
+    fs.copyFileSync(HISTORY_FILE, `${HISTORY_FILE}.v1.bak`);
+    writeHistory(history);
+  }
+
+  return history;
+}
+
+/**
+ * Load the history, apply a change and save it
+ */
+export function updateHistory(update: (history: HistoryData) => void): HistoryData {
+  const history = loadHistory();
+  update(history);
+  writeHistory(history);
+  return history;
+}
+
+/**
+ * Store an episode record and move it to the top of the activity feed.
+ * Repeated saves for the same episode (e.g. playback checkpoints) update the
+ * latest activity event instead of adding new ones.
+ */
+export function putEpisodeRecord(history: HistoryData, entry: Partial<StoredEpisodeRecord>): void {
+  const record = normalizeRecord(entry);
+  const key = getEpisodeKey(record.animeId, record.seasonNumber, record.episodeNumber);
+  history.episodes[key] = record;
+
+  if (history.activity[0]?.key === key) {
+    history.activity[0].at = record.watchedAt;
+  } else {
+    history.activity.unshift({ key, at: record.watchedAt });
+    history.activity = history.activity.slice(0, MAX_ACTIVITY_EVENTS);
+  }
+}
+
+/**
+ * Remove an episode record and its activity events
+ */
+export function removeEpisodeRecord(history: HistoryData, key: string): void {
+  delete history.episodes[key];
+  history.activity = history.activity.filter(event => event.key !== key);
+}
+
+/**
+ * Delete the history file
+ */
+export function deleteHistory(): boolean {
+  if (!fileExists(HISTORY_FILE)) return false;
+  fs.unlinkSync(HISTORY_FILE);
+  return true;
+}
@@ -2,9 +2,7 @@
  * Watch history management
  */
 
-import { getAppDataDir, fileExists } from './fileUtils.js';
-import fs from 'fs';
-import path from 'path';
+import { loadHistory, updateHistory, putEpisodeRecord, removeEpisodeRecord, deleteHistory, getEpisodeKey, HistoryData, StoredEpisodeRecord } from './historyStore.js';
 
 export interface WatchHistoryEntry {
   animeId: string;
@@ -18,35 +16,53 @@ export interface WatchHistoryEntry {
   progress: number; // percentage watched
   timePos: number; // seconds watched
   duration: number; // total duration in seconds
+  completedAt?: Date; // when the episode was first finished; kept when it is rewatched
 }
 
-const HISTORY_FILE = path.join(getAppDataDir(), 'watch-history.json');
+export type EpisodeWatchStatus = 'watched' | 'in-progress' | 'unwatched';
+
+// Progress at which an episode counts as watched: binge watching moves on and trackers are updated
+export const WATCHED_PROGRESS_THRESHOLD = 85;
+
+/**
+ * Convert a stored record to a history entry
+ */
+function toHistoryEntry(record: StoredEpisodeRecord): WatchHistoryEntry {
+  return {
+    ...record,
+    watchedAt: new Date(record.watchedAt),
+    completedAt: record.completedAt ? new Date(record.completedAt) : undefined
+  };
+}
+
+/**
+ * Store an entry, keeping the completion date of an episode that was finished before
+ */
+function putHistoryEntry(history: HistoryData, entry: WatchHistoryEntry): void {
+  const existing = history.episodes[getEpisodeKey(entry.animeId, entry.seasonNumber, entry.episodeNumber)];
+  const completedAt = entry.completedAt?.toISOString()
+    || existing?.completedAt
+    || (entry.progress >= WATCHED_PROGRESS_THRESHOLD ? entry.watchedAt.toISOString() : undefined);
+  
+  putEpisodeRecord(history, {
+    ...entry,
+    watchedAt: entry.watchedAt.toISOString(),
+    completedAt
+  });
+}
 
 /**
- * Load watch history from file
+ * Load every episode record, newest first
  */
 export function getWatchHistory(limit?: number): WatchHistoryEntry[] {
   try {
-    if (!fileExists(HISTORY_FILE)) {
-      return [];
-    }
-    
-    const data = fs.readFileSync(HISTORY_FILE, 'utf8');
-    const history = JSON.parse(data) as WatchHistoryEntry[];
-    
-    // Convert string dates back to Date objects and add default values for missing fields
-    const processedHistory = history.map(entry => ({
-      ...entry,
-      watchedAt: new Date(entry.watchedAt),
-      timePos: entry.timePos || 0, // Default to 0 if missing
-      duration: entry.duration || 0 // Default to 0 if missing
-    }));
+    const history = Object.values(loadHistory().episodes).map(toHistoryEntry);
     
     // Sort by watch date (newest first)
-    processedHistory.sort((a, b) => b.watchedAt.getTime() - a.watchedAt.getTime());
+    history.sort((a, b) => b.watchedAt.getTime() - a.watchedAt.getTime());
     
     // Apply limit if specified
-    return limit ? processedHistory.slice(0, limit) : processedHistory;
+    return limit ? history.slice(0, limit) : history;
     
   } catch (error) {
     console.error('Error loading watch history:', error);
@@ -55,33 +71,40 @@ export function getWatchHistory(limit?: number): WatchHistoryEntry[] {
 }
 
 /**
- * Save watch history entry
+ * Get recently watched episodes from the activity feed, newest first, each episode once
  */
-export function saveWatchHistory(entry: WatchHistoryEntry): void {
+export function getRecentActivity(limit: number = 10): WatchHistoryEntry[] {
   try {
-    const history = getWatchHistory();
+    const history = loadHistory();
+    const seen = new Set<string>();
+    const entries: WatchHistoryEntry[] = [];
     
-    // Remove existing entry for same anime/episode if exists
-    const existingIndex = history.findIndex(h => 
-      h.animeId === entry.animeId && 
-      h.seasonNumber === entry.seasonNumber && 
-      h.episodeNumber === entry.episodeNumber
-    );
-    
-    if (existingIndex >= 0) {
-      history.splice(existingIndex, 1);
+    for (const event of history.activity) {
+      const record = history.episodes[event.key];
+      if (!record || seen.has(event.key)) continue;
+      seen.add(event.key);
+      entries.push(toHistoryEntry(record));
+      if (entries.length >= limit) break;
     }
     
-    // Add new entry at the beginning
-    history.unshift(entry);
-    
-    // Keep only last 50 entries
-    const trimmedHistory = history.slice(0, 50);
+    return entries;
     
-    // Save to file
-    fs.writeFileSync(HISTORY_FILE, JSON.stringify(trimmedHistory, null, 2));
+  } catch (error) {
+    console.error('Error loading watch history:', error);
+    return [];
+  }
+}
+
+/**
+ * Save watch history entry
+ */
+export function saveWatchHistory(entry: WatchHistoryEntry, silent: boolean = false): void {
+  try {
+    updateHistory(history => putHistoryEntry(history, entry));
     
-    console.log('✅ Saved to watch history');
+    if (!silent) {
+      console.log('✅ Saved to watch history');
+    }
     
   } catch (error) {
     console.error('Error saving watch history:', error);
@@ -92,25 +115,71 @@ export function saveWatchHistory(entry: WatchHistoryEntry): void {
  * Get last watched anime
  */
 export function getLastWatchedAnime(): WatchHistoryEntry | null {
-  const history = getWatchHistory(1);
+  const history = getRecentActivity(1);
   return history.length > 0 ? history[0] : null;
 }
 
 /**
- * Get recent watch history for a specific anime
+ * Get every watched episode of a specific anime, newest first
  */
 export function getAnimeWatchHistory(animeId: string): WatchHistoryEntry[] {
   const history = getWatchHistory();
   return history.filter(entry => entry.animeId === animeId);
 }
 
+/**
+ * Get whether an episode has been watched, from its history entry
+ */
+export function getEpisodeWatchStatus(entry: WatchHistoryEntry | undefined): EpisodeWatchStatus {
+  if (!entry) return 'unwatched';
+  if (entry.completedAt || entry.progress >= WATCHED_PROGRESS_THRESHOLD) return 'watched';
+  return entry.progress > 0 || entry.timePos > 0 ? 'in-progress' : 'unwatched';
+}
+
+/**
+ * Mark episodes as fully watched in a single write
+ */
+export function markEpisodesWatched(entries: WatchHistoryEntry[]): void {
+  try {
+    updateHistory(history => {
+      for (const entry of entries) {
+        putHistoryEntry(history, { ...entry, progress: 100, completedAt: entry.completedAt || entry.watchedAt });
+      }
+    });
+  } catch (error) {
+    console.error('Error saving watch history:', error);
+  }
+}
+
+/**
+ * Remove episodes of an anime season from the history so they show as unwatched
+ */
+export function markEpisodesUnwatched(animeId: string, seasonNumber: number, episodeNumbers: number[]): void {
+  try {
+    updateHistory(history => {
+      for (const episodeNumber of episodeNumbers) {
+        removeEpisodeRecord(history, getEpisodeKey(animeId, seasonNumber, episodeNumber));
+      }
+    });
+  } catch (error) {
+    console.error('Error saving watch history:', error);
+  }
+}
+
+/**
+ * Render a progress percentage as a text bar, e.g. [███░░░░░░░]
+ */
+export function formatProgressBar(progress: number, width: number = 10): string {
+  const filled = Math.round((Math.max(0, Math.min(100, progress)) / 100) * width);
+  return `[${'█'.repeat(filled)}${'░'.repeat(width - filled)}]`;
+}
+
 /**
  * Clear watch history
  */
 export function clearWatchHistory(): void {
   try {
-    if (fileExists(HISTORY_FILE)) {
-      fs.unlinkSync(HISTORY_FILE);
+    if (deleteHistory()) {
       console.log('🗑️ Watch history cleared');
     } else {
       console.log('No watch history to clear');
@@ -0,0 +1,134 @@
+/**
+ * Helpers for running external programs with argument arrays (never through a shell)
+ */
+
+import { spawn, ChildProcess, StdioOptions } from 'child_process';
+import os from 'os';
+
+export interface RunProcessOptions {
+  stdio?: StdioOptions;
+  cwd?: string;
+}
+
+export interface ProcessResult {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+/**
+ * Thrown when a program cannot be started, e.g. because it isn't installed
+ */
+export class ProcessStartError extends Error {
+  constructor(public readonly command: string, public readonly reason: Error) {
+    super((reason as NodeJS.ErrnoException).code === 'ENOENT'
+      ? `Command not found: ${command}`
+      : `Could not start ${command}: ${reason.message}`);
+    this.name = 'ProcessStartError';
+  }
+}
+
+const runningProcesses = new Set<ChildProcess>();
+let interruptCount = 0;
+
+/**
+ * Pass Ctrl+C on to running children so they can shut down cleanly;
+ * a second Ctrl+C kills them
+ */
+function forwardInterrupt(): void {
+  interruptCount++;
+  for (const child of runningProcesses) {
+    child.kill(interruptCount > 1 ? 'SIGKILL' : 'SIGINT');
+  }
+}
+
+function trackProcess(child: ChildProcess): void {
+  if (runningProcesses.size === 0) {
+    interruptCount = 0;
+    process.on('SIGINT', forwardInterrupt);
+  }
+  runningProcesses.add(child);
+}
+
+function untrackProcess(child: ChildProcess): void {
+  if (!runningProcesses.delete(child)) return;
+  if (runningProcesses.size === 0) {
+    process.off('SIGINT', forwardInterrupt);
+  }
+}
+
+/**
+ * Whether a program started with runProcess() is still running.
+ * SIGINT handlers use this to let the child exit first instead of quitting immediately.
+ */
+export function hasRunningProcesses(): boolean {
+  return runningProcesses.size > 0;
+}
+
+/**
+ * Run a program and wait for it to exit. Arguments are passed as-is, so titles
+ * and URLs containing quotes, commas or shell characters are safe.
+ * Rejects with ProcessStartError if the program can't be started.
+ */
+export function runProcess(command: string, args: string[], options: RunProcessOptions = {}): Promise<ProcessResult> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const child = spawn(command, args, { stdio: options.stdio ?? 'ignore', cwd: options.cwd });
+    trackProcess(child);
+
+    child.once('error', (error) => {
+      untrackProcess(child);
+      if (settled) return;
+      settled = true;
+      reject(new ProcessStartError(command, error));
+    });
+
+    child.once('close', (code, signal) => {
+      untrackProcess(child);
+      if (settled) return;
+      settled = true;
+      resolve({ code, signal });
+    });
+  });
+}
+
+/**
+ * Check whether a command is available on PATH
+ */
+export async function commandExists(command: string): Promise<boolean> {
+  try {
+    const result = await runProcess(process.platform === 'win32' ? 'where' : 'which', [command]);
+    return result.code === 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Describe how a process ended, e.g. "exited with code 1" or "was stopped by SIGINT"
+ */
+export function formatExitStatus(result: ProcessResult): string {
+  return result.signal ? `was stopped by ${result.signal}` : `exited with code ${result.code}`;
+}
+
+/**
+ * Get a shell-style exit code for a result (128 + signal number for signals)
+ */
+export function getExitCode(result: ProcessResult): number {
+  if (result.code !== null) return result.code;
+  const signalNumber = result.signal ? os.constants.signals[result.signal] : undefined;
+  return signalNumber ? 128 + signalNumber : 1;
+}
+
+/**
+ * Split a command line into arguments, honoring single and double quotes
+ */
+export function splitCommandLine(commandLine: string): string[] {
+  const args: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|(\S+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(commandLine)) !== null) {
+    args.push(match[1] ?? match[2] ?? match[3]);
+  }
+  return args;
+}
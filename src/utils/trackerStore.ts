@@ -0,0 +1,108 @@
+/**
+ * Storage for tracker (AniList / MyAnimeList) accounts and the offline update queue
+ */
+
+import { getAppDataDir, fileExists } from './fileUtils.js';
+import fs from 'fs';
+import path from 'path';
+
+export type TrackerName = 'anilist' | 'mal';
+
+export interface TrackerAccount {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt?: string; // ISO date
+  username?: string;
+  connectedAt: string; // ISO date
+}
+
+export interface TrackerUpdate {
+  malId: number;
+  episodeNumber: number; // episodes watched in that MAL entry
+  title: string;
+}
+
+export interface QueuedTrackerUpdate extends TrackerUpdate {
+  tracker: TrackerName;
+  queuedAt: string; // ISO date
+  attempts: number;
+  lastError?: string;
+}
+
+const ACCOUNTS_FILE = path.join(getAppDataDir(), 'trackers.json');
+const QUEUE_FILE = path.join(getAppDataDir(), 'tracker-queue.json');
+
+/**
+ * Read a JSON file, returning the fallback if it's missing or unreadable
+ */
+function readJsonFile<T>(file: string, fallback: T): T {
+  try {
+    if (!fileExists(file)) return fallback;
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+  } catch (error) {
+    console.error(`Error reading ${path.basename(file)}:`, error);
+    return fallback;
+  }
+}
+
+/**
+ * Write a JSON file atomically, readable only by the current user (it may hold tokens)
+ */
+function writeJsonFile(file: string, data: unknown): void {
+  const tempFile = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(data, null, 2), { mode: 0o600 });
+  fs.renameSync(tempFile, file);
+}
+
+/**
+ * Get the stored accounts by tracker
+ */
+export function getTrackerAccounts(): Partial<Record<TrackerName, TrackerAccount>> {
+  return readJsonFile(ACCOUNTS_FILE, {});
+}
+
+/**
+ * Store (or, with null, remove) the account for a tracker
+ */
+export function saveTrackerAccount(tracker: TrackerName, account: TrackerAccount | null): void {
+  const accounts = getTrackerAccounts();
+  if (account) {
+    accounts[tracker] = account;
+  } else {
+    delete accounts[tracker];
+  }
+  writeJsonFile(ACCOUNTS_FILE, accounts);
+}
+
+/**
+ * Get updates that are waiting to be sent
+ */
+export function getTrackerQueue(): QueuedTrackerUpdate[] {
+  const queue = readJsonFile<unknown>(QUEUE_FILE, []);
+  return Array.isArray(queue) ? queue : [];
+}
+
+/**
+ * Replace the queued updates
+ */
+export function saveTrackerQueue(queue: QueuedTrackerUpdate[]): void {
+  writeJsonFile(QUEUE_FILE, queue);
+}
+
+/**
+ * Queue an update for a later sync. Only the furthest episode per tracker entry is kept.
+ */
+export function queueTrackerUpdate(tracker: TrackerName, update: TrackerUpdate, error: string): void {
+  const queue = getTrackerQueue();
+  const existing = queue.find(item => item.tracker === tracker && item.malId === update.malId);
+
+  if (existing) {
+    existing.episodeNumber = Math.max(existing.episodeNumber, update.episodeNumber);
+    existing.attempts++;
+    existing.lastError = error;
+  } else {
+    queue.push({ ...update, tracker, queuedAt: new Date().toISOString(), attempts: 1, lastError: error });
+  }
+
+  saveTrackerQueue(queue);
+}
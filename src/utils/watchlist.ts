@@ -0,0 +1,215 @@
+/**
+ * Local watchlist: anime to watch with a status, personal score and notes.
+ * Statuses move to watching or completed on their own as the watch history grows.
+ */
+
+import { getAppDataDir, fileExists } from './fileUtils.js';
+import { getWatchHistory, getEpisodeWatchStatus, WatchHistoryEntry } from './historyUtils.js';
+import fs from 'fs';
+import path from 'path';
+
+export type WatchlistStatus = 'planning' | 'watching' | 'completed' | 'on-hold' | 'dropped';
+
+export const WATCHLIST_STATUSES: WatchlistStatus[] = ['watching', 'planning', 'on-hold', 'completed', 'dropped'];
+
+export type WatchlistSort = 'status' | 'title' | 'score' | 'added' | 'updated';
+
+export const WATCHLIST_SORTS: WatchlistSort[] = ['status', 'title', 'score', 'added', 'updated'];
+
+export interface WatchlistEntry {
+  slug: string;
+  animeId: string;
+  title: string;
+  status: WatchlistStatus;
+  score?: number; // 1-10
+  notes?: string;
+  episodeCount?: number; // episodes the anime had when last seen, to tell when it's completed
+  addedAt: string; // ISO date
+  updatedAt: string; // ISO date
+  statusChangedAt: string; // ISO date; only watching after this changes the status on its own
+}
+
+export interface WatchlistAnime {
+  slug: string;
+  animeId: string;
+  title: string;
+  episodeCount?: number;
+}
+
+export interface WatchlistChanges {
+  status?: WatchlistStatus;
+  score?: number | null; // null clears it
+  notes?: string | null; // null or blank clears them
+}
+
+const WATCHLIST_FILE = path.join(getAppDataDir(), 'watchlist.json');
+
+/**
+ * Load the stored entries
+ */
+function loadWatchlist(): WatchlistEntry[] {
+  try {
+    if (!fileExists(WATCHLIST_FILE)) return [];
+    const data = JSON.parse(fs.readFileSync(WATCHLIST_FILE, 'utf8'));
+    return Array.isArray(data) ? data : [];
+  } catch (error) {
+    console.error('Error loading watchlist:', error);
+    return [];
+  }
+}
+
+/**
+ * Replace the stored entries
+ */
+function writeWatchlist(entries: WatchlistEntry[]): void {
+  const tempFile = `${WATCHLIST_FILE}.${process.pid}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(entries, null, 2));
+  fs.renameSync(tempFile, WATCHLIST_FILE);
+}
+
+/**
+ * Parse a status like "on-hold", "on hold" or "ON_HOLD"
+ */
+export function parseWatchlistStatus(value: unknown): WatchlistStatus {
+  const status = String(value ?? '').trim().toLowerCase().replace(/[\s_]+/g, '-');
+  if (!(WATCHLIST_STATUSES as string[]).includes(status)) {
+    throw new Error(`Expected one of ${WATCHLIST_STATUSES.join(', ')}`);
+  }
+  return status as WatchlistStatus;
+}
+
+/**
+ * Parse a personal score from 1 to 10; 0 clears it (null)
+ */
+export function parseWatchlistScore(value: unknown): number | null {
+  const score = Number(value);
+  if (!Number.isInteger(score) || score < 0 || score > 10) {
+    throw new Error('Expected a whole number from 1 to 10, or 0 to clear the score');
+  }
+  return score === 0 ? null : score;
+}
+
+/**
+ * Get the status an anime's watch history points to: completed once every episode is
+ * watched, watching once any is started, or null without history
+ */
+function getHistoryStatus(history: WatchHistoryEntry[], episodeCount?: number): WatchlistStatus | null {
+  if (history.length === 0) return null;
+  const watched = history.filter(entry => getEpisodeWatchStatus(entry) === 'watched').length;
+  return episodeCount && watched >= episodeCount ? 'completed' : 'watching';
+}
+
+/**
+ * Suggest a status for an anime being added, from what has been watched of it already
+ */
+export function suggestWatchlistStatus(animeId: string, episodeCount?: number): WatchlistStatus {
+  const history = getWatchHistory().filter(entry => entry.animeId === animeId);
+  return getHistoryStatus(history, episodeCount) || 'planning';
+}
+
+/**
+ * Get the status an entry should move to after watching since its status was set, if any.
+ * Completed entries stay completed while rewatching.
+ */
+function getAutomaticStatus(entry: WatchlistEntry, history: WatchHistoryEntry[]): WatchlistStatus | null {
+  const statusChangedAt = new Date(entry.statusChangedAt).getTime();
+  if (!history.some(item => item.watchedAt.getTime() > statusChangedAt)) return null;
+
+  const status = getHistoryStatus(history, entry.episodeCount);
+  if (status === entry.status || (status === 'watching' && entry.status === 'completed')) return null;
+  return status;
+}
+
+/**
+ * Get the watchlist, first moving statuses on for anime watched since their status was set
+ */
+export function getWatchlist(): WatchlistEntry[] {
+  const entries = loadWatchlist();
+  if (entries.length === 0) return entries;
+
+  const history = getWatchHistory();
+  const now = new Date().toISOString();
+  let changed = false;
+
+  for (const entry of entries) {
+    const status = getAutomaticStatus(entry, history.filter(item => item.animeId === entry.animeId));
+    if (status) {
+      entry.status = status;
+      entry.statusChangedAt = now;
+      entry.updatedAt = now;
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    try {
+      writeWatchlist(entries);
+    } catch (error) {
+      console.error('Error saving watchlist:', error);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Find the watchlist entry for an anime slug
+ */
+export function getWatchlistEntry(slug: string): WatchlistEntry | undefined {
+  return getWatchlist().find(entry => entry.slug === slug);
+}
+
+/**
+ * Add an anime to the watchlist or change its entry. Without a status, new entries get
+ * the one their watch history points to, or planning.
+ */
+export function updateWatchlistEntry(anime: WatchlistAnime, changes: WatchlistChanges): WatchlistEntry {
+  const entries = getWatchlist();
+  const existing = entries.find(entry => entry.slug === anime.slug);
+  const now = new Date().toISOString();
+  const status = changes.status || existing?.status || suggestWatchlistStatus(anime.animeId, anime.episodeCount);
+  const notes = changes.notes === undefined ? existing?.notes : changes.notes?.trim();
+
+  const entry: WatchlistEntry = {
+    slug: anime.slug,
+    animeId: anime.animeId,
+    title: anime.title,
+    status,
+    score: changes.score === undefined ? existing?.score : changes.score ?? undefined,
+    notes: notes || undefined,
+    episodeCount: anime.episodeCount ?? existing?.episodeCount,
+    addedAt: existing?.addedAt || now,
+    updatedAt: now,
+    statusChangedAt: existing && existing.status === status ? existing.statusChangedAt : now
+  };
+
+  writeWatchlist([...entries.filter(item => item.slug !== anime.slug), entry]);
+  return entry;
+}
+
+/**
+ * Remove an anime from the watchlist; returns false if it wasn't on it
+ */
+export function removeWatchlistEntry(slug: string): boolean {
+  const entries = loadWatchlist();
+  const remaining = entries.filter(entry => entry.slug !== slug);
+  if (remaining.length === entries.length) return false;
+  writeWatchlist(remaining);
+  return true;
+}
+
+/**
+ * Sort entries: by status (in WATCHLIST_STATUSES order), title, score (highest first,
+ * unscored last) or date added/updated (newest first). Ties are broken by title.
+ */
+export function sortWatchlist(entries: WatchlistEntry[], sort: WatchlistSort): WatchlistEntry[] {
+  const byTitle = (a: WatchlistEntry, b: WatchlistEntry) => a.title.localeCompare(b.title);
+  const compare: Record<WatchlistSort, (a: WatchlistEntry, b: WatchlistEntry) => number> = {
+    status: (a, b) => WATCHLIST_STATUSES.indexOf(a.status) - WATCHLIST_STATUSES.indexOf(b.status),
+    title: () => 0,
+    score: (a, b) => (b.score ?? 0) - (a.score ?? 0),
+    added: (a, b) => b.addedAt.localeCompare(a.addedAt),
+    updated: (a, b) => b.updatedAt.localeCompare(a.updatedAt)
+  };
+  return [...entries].sort((a, b) => compare[sort](a, b) || byTitle(a, b));
+}
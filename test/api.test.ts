@@ -0,0 +1,57 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// The config and cache modules resolve the app data dir on import, so point HOME away first
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'openanime-test-'));
+process.env.HOME = home;
+const { isAnimeResult, isAnimeDetail, isEpisodeDetail } = await import('../src/services/api.js');
+
+after(() => fs.rmSync(home, { recursive: true, force: true }));
+
+const episode = () => ({
+  animeMeta: { id: 1 },
+  fansubs: [],
+  episodeData: {
+    fansub: { name: 'sub' },
+    resolutions: [1080],
+    files: [{ resolution: 1080, file: 'a.mp4' }]
+  }
+});
+
+test('isAnimeResult accepts string and number ids with a slug', () => {
+  assert.ok(isAnimeResult({ id: 1, slug: 'a' }));
+  assert.ok(isAnimeResult({ id: '1', slug: 'a', title: 'A' }));
+});
+
+test('isAnimeResult rejects missing slugs, bad ids and non-objects', () => {
+  assert.ok(!isAnimeResult({ id: 1 }));
+  assert.ok(!isAnimeResult({ id: null, slug: 'a' }));
+  assert.ok(!isAnimeResult([{ id: 1, slug: 'a' }]));
+  assert.ok(!isAnimeResult(null));
+  assert.ok(!isAnimeResult('a'));
+});
+
+test('isAnimeDetail requires seasons with numeric numbers and counts', () => {
+  assert.ok(isAnimeDetail({ id: 1, slug: 'a', seasons: [] }));
+  assert.ok(isAnimeDetail({ id: 1, slug: 'a', seasons: [{ season_number: 1, episode_count: 12 }] }));
+  assert.ok(!isAnimeDetail({ id: 1, slug: 'a' }));
+  assert.ok(!isAnimeDetail({ id: 1, slug: 'a', seasons: [{ season_number: '1', episode_count: 12 }] }));
+  assert.ok(!isAnimeDetail({ id: 1, slug: 'a', seasons: [{ season_number: 1 }] }));
+  assert.ok(!isAnimeDetail({ slug: 'a', seasons: [] }));
+});
+
+test('isEpisodeDetail accepts episode details with their files', () => {
+  assert.ok(isEpisodeDetail(episode()));
+});
+
+test('isEpisodeDetail rejects missing parts and malformed files', () => {
+  assert.ok(!isEpisodeDetail({ ...episode(), animeMeta: undefined }));
+  assert.ok(!isEpisodeDetail({ ...episode(), fansubs: {} }));
+  assert.ok(!isEpisodeDetail({ ...episode(), episodeData: null }));
+  assert.ok(!isEpisodeDetail({ ...episode(), episodeData: { ...episode().episodeData, fansub: undefined } }));
+  assert.ok(!isEpisodeDetail({ ...episode(), episodeData: { ...episode().episodeData, resolutions: undefined } }));
+  assert.ok(!isEpisodeDetail({ ...episode(), episodeData: { ...episode().episodeData, files: [{ resolution: '1080' }] } }));
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DOWNLOAD_PRESETS, parseDownloadTemplate, renderDownloadTemplate, DownloadTemplateValues } from '../src/utils/downloadTemplate.js';
+
+const values: DownloadTemplateValues = {
+  title: 'Attack on Titan',
+  romaji: 'Shingeki no Kyojin',
+  slug: 'shingeki-no-kyojin',
+  season: 2,
+  episode: 5,
+  episodeTitle: 'Historia',
+  fansub: 'Subs',
+  resolution: '1080p'
+};
+
+test('the default preset renders the original folder and file names', () => {
+  assert.deepEqual(renderDownloadTemplate(DOWNLOAD_PRESETS.default.folder, values), ['Attack on Titan']);
+  assert.deepEqual(renderDownloadTemplate(DOWNLOAD_PRESETS.default.file, values), ['S2E5 - Historia']);
+});
+
+test('the Plex and Jellyfin presets use zero-padded season folders and episode names', () => {
+  for (const preset of ['plex', 'jellyfin']) {
+    assert.deepEqual(renderDownloadTemplate(parseDownloadTemplate(preset, 'folder'), values), ['Attack on Titan', 'Season 02']);
+    assert.deepEqual(renderDownloadTemplate(parseDownloadTemplate(preset, 'file'), values), ['Attack on Titan - S02E05']);
+  }
+});
+
+test('parseDownloadTemplate expands preset names regardless of case and spacing', () => {
+  assert.equal(parseDownloadTemplate(' Plex ', 'file'), DOWNLOAD_PRESETS.plex.file);
+});
+
+test('every token can be used and padding applies only to numbers', () => {
+  const template = parseDownloadTemplate('{romaji} [{slug}] {season:03}x{episode:3} {episodeTitle} {fansub} {resolution:04}', 'file');
+  assert.deepEqual(renderDownloadTemplate(template, values),
+    ['Shingeki no Kyojin [shingeki-no-kyojin] 002x005 Historia Subs 1080p']);
+});
+
+test('values are made safe for file names and cannot add folders', () => {
+  const rendered = renderDownloadTemplate('{title}/{episodeTitle}', {
+    ...values,
+    title: 'Re:Zero / Starting Life?',
+    episodeTitle: '../The End...'
+  });
+
+  assert.deepEqual(rendered, ['Re_Zero _ Starting Life_', '.._The End']);
+});
+
+test('empty and dot-only folders are dropped', () => {
+  assert.deepEqual(renderDownloadTemplate('{fansub}//Season {season}/.', { ...values, fansub: '' }), ['Season 2']);
+});
+
+test('parseDownloadTemplate rejects unknown tokens', () => {
+  assert.throws(() => parseDownloadTemplate('{title} {quality}', 'file'), /Unknown template token \{quality\}/);
+});
+
+test('parseDownloadTemplate rejects empty templates and folders in file templates', () => {
+  assert.throws(() => parseDownloadTemplate('  ', 'folder'), /Expected a template/);
+  assert.throws(() => parseDownloadTemplate('{title}/{episode}', 'file'), /can't contain folders/);
+  assert.throws(() => parseDownloadTemplate('{title}\\{episode}', 'file'), /can't contain folders/);
+});
+
+test('parseDownloadTemplate keeps folder templates inside the download path', () => {
+  assert.throws(() => parseDownloadTemplate('/srv/{title}', 'folder'), /inside downloadPath/);
+  assert.throws(() => parseDownloadTemplate('C:/{title}', 'folder'), /inside downloadPath/);
+  assert.throws(() => parseDownloadTemplate('{title}/../..', 'folder'), /inside downloadPath/);
+  assert.equal(parseDownloadTemplate('Anime/{title}', 'folder'), 'Anime/{title}');
+});
@@ -0,0 +1,73 @@
+import { test, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// The preferences and config files are resolved under HOME on import, so point HOME away first
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'openanime-test-'));
+process.env.HOME = home;
+const dataDir = path.join(home, '.openanime-cli');
+const { choosePreferredFansub, rememberFansub, getRememberedFansub } = await import('../src/utils/fansubPreferences.js');
+
+after(() => fs.rmSync(home, { recursive: true, force: true }));
+
+const setPreferredFansubs = (preferredFansubs: string[]) =>
+  fs.writeFileSync(path.join(dataDir, 'config.json'), JSON.stringify({ preferredFansubs }));
+
+beforeEach(() => {
+  fs.rmSync(path.join(dataDir, 'fansub-preferences.json'), { force: true });
+  setPreferredFansubs([]);
+});
+
+const alpha = { id: '1', name: 'Alpha Subs', secureName: 'alpha-subs' };
+const beta = { id: '2', name: 'Beta Fansub', secureName: 'beta-fansub' };
+const gamma = { id: '3', name: 'Gamma' };
+
+test('without preferences no fansub is chosen', () => {
+  assert.deepEqual(choosePreferredFansub('show', [alpha, beta]), { fansub: undefined });
+});
+
+test('preferredFansubs are tried in order, matching id, secureName or name', () => {
+  setPreferredFansubs(['missing', 'BETA FANSUB', 'alpha-subs']);
+  assert.deepEqual(choosePreferredFansub('show', [alpha, beta]), { fansub: beta, wanted: 'missing' });
+
+  setPreferredFansubs(['alpha-subs', '2']);
+  assert.deepEqual(choosePreferredFansub('show', [beta, alpha]), { fansub: alpha, wanted: undefined });
+
+  setPreferredFansubs(['3']);
+  assert.deepEqual(choosePreferredFansub('show', [alpha, gamma]), { fansub: gamma, wanted: undefined });
+});
+
+test('the fansub remembered for an anime comes before preferredFansubs', () => {
+  setPreferredFansubs(['alpha-subs']);
+  rememberFansub('show', beta);
+
+  assert.deepEqual(choosePreferredFansub('show', [alpha, beta]), { fansub: beta, wanted: undefined });
+  assert.deepEqual(choosePreferredFansub('other-show', [alpha, beta]), { fansub: alpha, wanted: undefined });
+});
+
+test('a remembered fansub that is missing falls back to preferredFansubs and is reported by name', () => {
+  setPreferredFansubs(['alpha-subs']);
+  rememberFansub('show', beta);
+
+  assert.deepEqual(choosePreferredFansub('show', [alpha, gamma]), { fansub: alpha, wanted: 'Beta Fansub' });
+  assert.deepEqual(choosePreferredFansub('show', [gamma]), { fansub: undefined, wanted: 'Beta Fansub' });
+});
+
+test('a remembered fansub without a secureName still matches by id', () => {
+  rememberFansub('show', gamma);
+
+  assert.equal(getRememberedFansub('show')?.secureName, '');
+  assert.deepEqual(choosePreferredFansub('show', [alpha, gamma]), { fansub: gamma, wanted: undefined });
+});
+
+test('rememberFansub replaces the earlier choice for the same anime only', () => {
+  rememberFansub('show', alpha);
+  rememberFansub('other-show', gamma);
+  rememberFansub('show', beta);
+
+  assert.equal(getRememberedFansub('show')?.id, '2');
+  assert.equal(getRememberedFansub('other-show')?.id, '3');
+  assert.equal(getRememberedFansub('unknown'), null);
+});
@@ -0,0 +1,123 @@
+import { test, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// The history file path is resolved under HOME on import, so point HOME away first
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'openanime-test-'));
+process.env.HOME = home;
+const {
+  HISTORY_FILE, HISTORY_SCHEMA_VERSION, HistoryVersionError, loadHistory, updateHistory, putEpisodeRecord, getEpisodeKey
+} = await import('../src/utils/historyStore.js');
+
+const dataDir = path.dirname(HISTORY_FILE);
+
+after(() => fs.rmSync(home, { recursive: true, force: true }));
+
+beforeEach(() => {
+  for (const file of fs.readdirSync(dataDir)) {
+    if (file.startsWith('watch-history')) fs.rmSync(path.join(dataDir, file));
+  }
+});
+
+const v1Entry = (episodeNumber: number, watchedAt: string, progress: number) => ({
+  animeId: 42,
+  animeTitle: 'Some Anime',
+  animeSlug: 'some-anime',
+  seasonNumber: 1,
+  episodeNumber,
+  episodeTitle: `Episode ${episodeNumber}`,
+  fansubName: 'Subs',
+  watchedAt,
+  progress,
+  timePos: progress * 14,
+  duration: 1400
+});
+
+const writeFile = (data: unknown) => fs.writeFileSync(HISTORY_FILE, JSON.stringify(data));
+const readFile = () => JSON.parse(fs.readFileSync(HISTORY_FILE, 'utf8'));
+
+test('a missing file loads as an empty history', () => {
+  assert.deepEqual(loadHistory(), { version: HISTORY_SCHEMA_VERSION, episodes: {}, activity: [] });
+  assert.ok(!fs.existsSync(HISTORY_FILE));
+});
+
+test('a version 1 array is migrated to one record per episode, newest watch kept', () => {
+  const v1 = [
+    v1Entry(2, '2024-05-03T20:00:00.000Z', 40),
+    v1Entry(1, '2024-05-02T20:00:00.000Z', 100),
+    v1Entry(2, '2024-05-01T20:00:00.000Z', 100)
+  ];
+  writeFile(v1);
+
+  const history = loadHistory();
+
+  assert.equal(history.version, HISTORY_SCHEMA_VERSION);
+  assert.deepEqual(Object.keys(history.episodes).sort(), ['42:1:1', '42:1:2']);
+  assert.equal(history.episodes['42:1:2'].progress, 40);
+  assert.equal(history.episodes['42:1:2'].animeId, '42');
+  assert.deepEqual(history.activity, [
+    { key: '42:1:2', at: '2024-05-03T20:00:00.000Z' },
+    { key: '42:1:1', at: '2024-05-02T20:00:00.000Z' }
+  ]);
+});
+
+test('migration rewrites the file and keeps the original as a backup', () => {
+  const v1 = [v1Entry(1, '2024-05-02T20:00:00.000Z', 100)];
+  writeFile(v1);
+
+  const history = loadHistory();
+
+  assert.deepEqual(readFile(), history);
+  assert.deepEqual(JSON.parse(fs.readFileSync(`${HISTORY_FILE}.v1.bak`, 'utf8')), v1);
+});
+
+test('migration fills in missing fields', () => {
+  writeFile([{ animeId: 7, seasonNumber: 1, episodeNumber: 3, watchedAt: '2024-01-01T00:00:00.000Z' }]);
+
+  assert.deepEqual(loadHistory().episodes['7:1:3'], {
+    animeId: '7',
+    animeTitle: '',
+    animeSlug: '',
+    seasonNumber: 1,
+    episodeNumber: 3,
+    episodeTitle: '',
+    fansubName: 'Unknown',
+    watchedAt: '2024-01-01T00:00:00.000Z',
+    progress: 0,
+    timePos: 0,
+    duration: 0
+  });
+});
+
+test('a file from a newer version is refused and left untouched', () => {
+  const newer = { version: HISTORY_SCHEMA_VERSION + 1, episodes: {}, activity: [], extra: true };
+  writeFile(newer);
+
+  assert.throws(() => loadHistory(), HistoryVersionError);
+  assert.throws(() => updateHistory(() => {}), HistoryVersionError);
+  assert.deepEqual(readFile(), newer);
+});
+
+test('an unreadable file is set aside instead of overwritten', (t) => {
+  t.mock.method(console, 'error', () => {});
+  fs.writeFileSync(HISTORY_FILE, '{"version": 2, "episodes":');
+
+  assert.deepEqual(loadHistory().episodes, {});
+  assert.ok(!fs.existsSync(HISTORY_FILE));
+  const backups = fs.readdirSync(dataDir).filter(file => file.startsWith('watch-history.json.corrupt-'));
+  assert.equal(backups.length, 1);
+});
+
+test('repeated saves of one episode update its latest activity event', () => {
+  const key = getEpisodeKey('42', 1, 1);
+  updateHistory(history => putEpisodeRecord(history, { ...v1Entry(1, '2024-05-01T20:00:00.000Z', 10), animeId: '42' }));
+  updateHistory(history => putEpisodeRecord(history, { ...v1Entry(1, '2024-05-01T20:05:00.000Z', 30), animeId: '42' }));
+  updateHistory(history => putEpisodeRecord(history, { ...v1Entry(2, '2024-05-01T21:00:00.000Z', 10), animeId: '42' }));
+  const history = updateHistory(history => putEpisodeRecord(history, { ...v1Entry(1, '2024-05-01T22:00:00.000Z', 50), animeId: '42' }));
+
+  assert.equal(history.episodes[key].progress, 50);
+  assert.deepEqual(history.activity.map(event => event.key), [key, getEpisodeKey('42', 1, 2), key]);
+  assert.equal(history.activity[2].at, '2024-05-01T20:05:00.000Z');
+});
@@ -0,0 +1,143 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parseMasterPlaylist, isHlsUrl } from '../src/services/hls.js';
+
+// api.ts loads the config module, which resolves the app data dir on import
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'openanime-test-'));
+process.env.HOME = home;
+const { selectVideoFile, selectStream } = await import('../src/services/api.js');
+
+after(() => fs.rmSync(home, { recursive: true, force: true }));
+
+const PLAYLIST_URL = 'https://cdn.example.com/anime/s1e1/master.m3u8?token=abc';
+
+// A master playlist as served by a typical packager: audio rendition group, CRLF endings,
+// relative and absolute variant URIs and an I-frame playlist that is not a variant
+const MASTER_PLAYLIST = [
+  '#EXTM3U',
+  '#EXT-X-VERSION:4',
+  '#EXT-X-INDEPENDENT-SEGMENTS',
+  '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",LANGUAGE="ja",NAME="Japanese",DEFAULT=YES,AUTOSELECT=YES,URI="audio/ja.m3u8"',
+  '#EXT-X-STREAM-INF:BANDWIDTH=1280000,AVERAGE-BANDWIDTH=1100000,RESOLUTION=854x480,CODECS="avc1.4d401e,mp4a.40.2",AUDIO="aac"',
+  '480p/index.m3u8',
+  '#EXT-X-STREAM-INF:BANDWIDTH=5120000,RESOLUTION=1920x1080,FRAME-RATE=23.976,CODECS="avc1.640028,mp4a.40.2",AUDIO="aac"',
+  '',
+  'https://mirror.example.com/s1e1/1080p/index.m3u8',
+  '#EXT-X-STREAM-INF:BANDWIDTH=2560000,RESOLUTION=1280x720,CODECS="avc1.4d401f,mp4a.40.2",AUDIO="aac"',
+  '720p/index.m3u8',
+  '#EXT-X-I-FRAME-STREAM-INF:BANDWIDTH=86000,RESOLUTION=854x480,URI="480p/iframes.m3u8"',
+  ''
+].join('\r\n');
+
+const MEDIA_PLAYLIST = [
+  '#EXTM3U',
+  '#EXT-X-TARGETDURATION:6',
+  '#EXT-X-MEDIA-SEQUENCE:0',
+  '#EXTINF:6.0,',
+  'segment0.ts',
+  '#EXT-X-ENDLIST'
+].join('\n');
+
+test('parseMasterPlaylist lists variants highest resolution first with absolute URLs', () => {
+  const variants = parseMasterPlaylist(MASTER_PLAYLIST, PLAYLIST_URL);
+
+  assert.deepEqual(variants, [
+    {
+      url: 'https://mirror.example.com/s1e1/1080p/index.m3u8',
+      bandwidth: 5120000,
+      width: 1920,
+      height: 1080,
+      codecs: 'avc1.640028,mp4a.40.2'
+    },
+    {
+      url: 'https://cdn.example.com/anime/s1e1/720p/index.m3u8',
+      bandwidth: 2560000,
+      width: 1280,
+      height: 720,
+      codecs: 'avc1.4d401f,mp4a.40.2'
+    },
+    {
+      url: 'https://cdn.example.com/anime/s1e1/480p/index.m3u8',
+      bandwidth: 1280000,
+      width: 854,
+      height: 480,
+      codecs: 'avc1.4d401e,mp4a.40.2'
+    }
+  ]);
+});
+
+test('parseMasterPlaylist accepts a byte order mark or blank lines before the header', () => {
+  assert.equal(parseMasterPlaylist(`\uFEFF${MASTER_PLAYLIST}`, PLAYLIST_URL).length, 3);
+  assert.equal(parseMasterPlaylist(`\n  \r\n${MASTER_PLAYLIST}`, PLAYLIST_URL).length, 3);
+});
+
+test('parseMasterPlaylist returns no variants for media playlists and non-playlists', () => {
+  assert.deepEqual(parseMasterPlaylist(MEDIA_PLAYLIST, PLAYLIST_URL), []);
+  assert.deepEqual(parseMasterPlaylist('<html>Not found</html>', PLAYLIST_URL), []);
+});
+
+test('parseMasterPlaylist orders variants without a resolution by bandwidth', () => {
+  const playlist = [
+    '#EXTM3U',
+    '#EXT-X-STREAM-INF:BANDWIDTH=800000',
+    'low.m3u8',
+    '#EXT-X-STREAM-INF:BANDWIDTH=2400000',
+    'high.m3u8'
+  ].join('\n');
+
+  assert.deepEqual(parseMasterPlaylist(playlist, PLAYLIST_URL).map(variant => variant.url), [
+    'https://cdn.example.com/anime/s1e1/high.m3u8',
+    'https://cdn.example.com/anime/s1e1/low.m3u8'
+  ]);
+});
+
+test('isHlsUrl recognizes m3u8 URLs with and without a query', () => {
+  assert.ok(isHlsUrl(PLAYLIST_URL));
+  assert.ok(isHlsUrl('/video/index.M3U8'));
+  assert.ok(!isHlsUrl('https://cdn.example.com/video.mp4'));
+  assert.ok(!isHlsUrl('https://cdn.example.com/m3u8/video.mp4'));
+});
+
+const files = [{ resolution: 480 }, { resolution: 1080 }, { resolution: 720 }];
+
+test('selectVideoFile picks an exact resolution match', () => {
+  assert.equal(selectVideoFile(files, '720p')?.resolution, 720);
+  assert.equal(selectVideoFile(files, '1080')?.resolution, 1080);
+});
+
+test('selectVideoFile picks the nearest resolution, the lower one on ties', () => {
+  assert.equal(selectVideoFile(files, '950p')?.resolution, 1080);
+  assert.equal(selectVideoFile(files, '600p')?.resolution, 480);
+  assert.equal(selectVideoFile(files, '2160p')?.resolution, 1080);
+  assert.equal(selectVideoFile([{ resolution: 600 }, { resolution: 800 }], '700p')?.resolution, 600);
+});
+
+test('selectVideoFile handles best, worst, no preference and unknown values', () => {
+  assert.equal(selectVideoFile(files, 'best')?.resolution, 1080);
+  assert.equal(selectVideoFile(files, 'WORST')?.resolution, 480);
+  assert.equal(selectVideoFile(files)?.resolution, 1080);
+  assert.equal(selectVideoFile(files, 'high')?.resolution, 1080);
+  assert.equal(selectVideoFile([], '720p'), null);
+});
+
+test('selectVideoFile does not reorder the files it is given', () => {
+  selectVideoFile(files, 'worst');
+  assert.deepEqual(files.map(file => file.resolution), [480, 1080, 720]);
+});
+
+test('selectStream picks from HLS variants by quality and can prefer a stream type', () => {
+  const streams = parseMasterPlaylist(MASTER_PLAYLIST, PLAYLIST_URL).map(variant => ({
+    url: variant.url,
+    quality: `${variant.height}p`,
+    resolution: variant.height,
+    type: 'm3u8' as const
+  }));
+  const mp4 = { url: 'https://cdn.example.com/anime/s1e1/720.mp4', quality: '720p', type: 'mp4' as const };
+
+  assert.equal(selectStream(streams, '720p')?.url, 'https://cdn.example.com/anime/s1e1/720p/index.m3u8');
+  assert.equal(selectStream([...streams, mp4], '1080p', 'mp4')?.url, mp4.url);
+  assert.equal(selectStream([...streams, mp4], '720p', 'other')?.resolution, 720);
+});
@@ -0,0 +1,131 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { HttpClient, HttpError, JsonParseError, ResponseValidationError, TimeoutError } from '../src/services/http.js';
+
+type Reply = { status: number; body?: string; delayMs?: number };
+
+// Replies are served in order per path; the last one repeats
+let replies: Record<string, Reply[]> = {};
+let hits: Record<string, number[]> = {};
+let server: http.Server;
+let baseUrl = '';
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    const times = hits[pathname] ??= [];
+    times.push(Date.now());
+
+    const queue = replies[pathname] || [{ status: 404 }];
+    const reply = queue[Math.min(times.length, queue.length) - 1];
+    const send = () => {
+      res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+      res.end(reply.body ?? '');
+    };
+    if (reply.delayMs) {
+      setTimeout(send, reply.delayMs);
+    } else {
+      send();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+beforeEach(() => {
+  replies = {};
+  hits = {};
+});
+
+const client = (options: { retries?: number; retryDelayMs?: number; timeoutMs?: number } = {}) =>
+  new HttpClient({ baseUrl, retryDelayMs: 10, ...options });
+
+const isNamed = (value: unknown): value is { name: string } =>
+  typeof value === 'object' && value !== null && typeof (value as { name?: unknown }).name === 'string';
+
+test('getJson parses a JSON response', async () => {
+  replies['/ok'] = [{ status: 200, body: '{"name":"a"}' }];
+  assert.deepEqual(await client().getJson('/ok'), { name: 'a' });
+});
+
+test('buildUrl joins the base URL and path and skips undefined query params', () => {
+  const url = new HttpClient({ baseUrl: 'http://example.com/api/' })
+    .buildUrl('/search', { q: 'one piece', page: 2, type: undefined });
+  assert.equal(url, 'http://example.com/api/search?q=one+piece&page=2');
+});
+
+test('5xx responses are retried until one succeeds', async () => {
+  replies['/flaky'] = [{ status: 503 }, { status: 500 }, { status: 200, body: '[]' }];
+  assert.deepEqual(await client({ retries: 2 }).getJson('/flaky'), []);
+  assert.equal(hits['/flaky'].length, 3);
+});
+
+test('429 responses are retried', async () => {
+  replies['/limited'] = [{ status: 429 }, { status: 200, body: '{}' }];
+  assert.deepEqual(await client().getJson('/limited'), {});
+  assert.equal(hits['/limited'].length, 2);
+});
+
+test('retries stop after the configured count and throw the last HttpError', async () => {
+  replies['/down'] = [{ status: 502 }];
+  await assert.rejects(client({ retries: 2 }).getJson('/down'), (error: unknown) => {
+    assert.ok(error instanceof HttpError);
+    assert.equal(error.status, 502);
+    assert.equal(error.url, `${baseUrl}/down`);
+    return true;
+  });
+  assert.equal(hits['/down'].length, 3);
+});
+
+test('retries back off exponentially', async () => {
+  replies['/slow-recovery'] = [{ status: 500 }, { status: 500 }, { status: 200, body: '{}' }];
+  await client({ retries: 2, retryDelayMs: 50 }).getJson('/slow-recovery');
+
+  const [first, second, third] = hits['/slow-recovery'];
+  assert.ok(second - first >= 45, `first delay was ${second - first}ms`);
+  assert.ok(third - second >= 95, `second delay was ${third - second}ms`);
+});
+
+test('4xx responses other than 429 are not retried', async () => {
+  replies['/missing'] = [{ status: 404 }];
+  await assert.rejects(client().getJson('/missing'), (error: unknown) =>
+    error instanceof HttpError && error.status === 404);
+  assert.equal(hits['/missing'].length, 1);
+});
+
+test('invalid JSON throws JsonParseError without retrying', async () => {
+  replies['/html'] = [{ status: 200, body: '<html>maintenance</html>' }];
+  await assert.rejects(client().getJson('/html'), (error: unknown) =>
+    error instanceof JsonParseError && error.body === '<html>maintenance</html>');
+  assert.equal(hits['/html'].length, 1);
+});
+
+test('a response failing validation throws ResponseValidationError without retrying', async () => {
+  replies['/shape'] = [{ status: 200, body: '{"id":1}' }];
+  await assert.rejects(client().getJson('/shape', { validate: isNamed }), ResponseValidationError);
+  assert.equal(hits['/shape'].length, 1);
+});
+
+test('a response passing validation is returned', async () => {
+  replies['/shape'] = [{ status: 200, body: '{"name":"a"}' }];
+  assert.deepEqual(await client().getJson('/shape', { validate: isNamed }), { name: 'a' });
+});
+
+test('a slow response throws TimeoutError', async () => {
+  replies['/hang'] = [{ status: 200, body: '{}', delayMs: 500 }];
+  await assert.rejects(client({ retries: 0, timeoutMs: 50 }).getJson('/hang'), (error: unknown) =>
+    error instanceof TimeoutError && error.timeoutMs === 50);
+});
+
+test('timeouts are retried', async () => {
+  replies['/hang-once'] = [{ status: 200, body: '{}', delayMs: 500 }, { status: 200, body: '{"ok":true}' }];
+  assert.deepEqual(await client({ retries: 1, timeoutMs: 100 }).getJson('/hang-once'), { ok: true });
+  assert.equal(hits['/hang-once'].length, 2);
+});
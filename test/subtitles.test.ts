@@ -0,0 +1,101 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// api.ts loads the config module, which resolves the app data dir on import
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'openanime-test-'));
+process.env.HOME = home;
+const { isEpisodeDetail, getSubtitleTracks } = await import('../src/services/api.js');
+const { orderSubtitleTracks, getSubtitleSidecarPaths, findSidecarSubtitles } = await import('../src/services/subtitles.js');
+type SubtitleTrack = import('../src/services/api.js').SubtitleTrack;
+type EpisodeData = import('../src/services/api.js').EpisodeDetail['episodeData'];
+
+after(() => fs.rmSync(home, { recursive: true, force: true }));
+
+const episode = (subtitles?: unknown) => ({
+  animeMeta: { id: 1 },
+  fansubs: [],
+  episodeData: {
+    fansub: { name: 'sub' },
+    resolutions: [1080],
+    files: [{ resolution: 1080, file: 'a.mp4' }],
+    ...(subtitles === undefined ? {} : { subtitles })
+  }
+});
+
+const track = (language: string, label?: string): SubtitleTrack => ({
+  url: `https://cdn.example.com/${language}.ass`,
+  language,
+  format: 'ass',
+  ...(label ? { label } : {})
+});
+
+test('isEpisodeDetail accepts episodes with and without subtitle files', () => {
+  assert.ok(isEpisodeDetail(episode()));
+  assert.ok(isEpisodeDetail(episode([])));
+  assert.ok(isEpisodeDetail(episode([{ file: 'a.ass', language: 'tr' }])));
+});
+
+test('isEpisodeDetail rejects malformed subtitle lists', () => {
+  assert.ok(!isEpisodeDetail(episode([{ url: 'a.ass' }])));
+  assert.ok(!isEpisodeDetail(episode('a.ass')));
+  assert.ok(!isEpisodeDetail(episode([null])));
+});
+
+test('getSubtitleTracks resolves relative files, normalizes languages and skips unknown formats', () => {
+  const episodeData = {
+    subtitles: [
+      { file: '/subs/1-tr.ass', language: ' TR ', name: 'Full' },
+      { file: 'https://subs.example.com/1.en.srt?v=2', language: 'en' },
+      { file: 'subs/1.vtt' },
+      { file: 'subs/1.sup', language: 'de' }
+    ]
+  } as EpisodeData;
+
+  const tracks = getSubtitleTracks('some-anime', 2, episodeData);
+
+  assert.equal(tracks.length, 3);
+  assert.match(tracks[0].url, /\/animes\/some-anime\/2\/subs\/1-tr\.ass$/);
+  assert.equal(tracks[0].language, 'tr');
+  assert.equal(tracks[0].label, 'Full');
+  assert.deepEqual(tracks[1], { url: 'https://subs.example.com/1.en.srt?v=2', language: 'en', format: 'srt' });
+  assert.equal(tracks[2].language, 'und');
+  assert.equal(tracks[2].format, 'vtt');
+});
+
+test('orderSubtitleTracks puts preferred languages first and keeps the API order otherwise', () => {
+  const tracks = [track('de'), track('en-us'), track('tr'), track('fr'), track('tr', 'Signs')];
+
+  assert.deepEqual(orderSubtitleTracks(tracks, ['tr', 'en']).map(item => `${item.language}${item.label ? `/${item.label}` : ''}`),
+    ['tr', 'tr/Signs', 'en-us', 'de', 'fr']);
+  assert.deepEqual(orderSubtitleTracks(tracks, []), tracks);
+});
+
+test('getSubtitleSidecarPaths names sidecars after the video with the language last', () => {
+  const paths = getSubtitleSidecarPaths('/media/Show/S1E1 - Pilot.mp4', [
+    track('tr'),
+    track('tr'),
+    track('en', 'Signs & Songs.v2'),
+    { ...track('en'), format: 'srt' }
+  ]);
+
+  assert.deepEqual(paths, [
+    '/media/Show/S1E1 - Pilot.tr.ass',
+    '/media/Show/S1E1 - Pilot.2.tr.ass',
+    '/media/Show/S1E1 - Pilot.Signs & Songs_v2.en.ass',
+    '/media/Show/S1E1 - Pilot.en.srt'
+  ]);
+});
+
+test('findSidecarSubtitles lists only subtitle files belonging to the video', () => {
+  const dir = fs.mkdtempSync(path.join(home, 'media-'));
+  for (const file of ['E1.mp4', 'E1.tr.ass', 'E1.en.SRT', 'E1.nfo', 'E10.tr.ass', 'E1-thumb.jpg']) {
+    fs.writeFileSync(path.join(dir, file), '');
+  }
+
+  assert.deepEqual(findSidecarSubtitles(path.join(dir, 'E1.mp4')).sort(),
+    [path.join(dir, 'E1.en.SRT'), path.join(dir, 'E1.tr.ass')]);
+  assert.deepEqual(findSidecarSubtitles(path.join(home, 'missing', 'E1.mp4')), []);
+});
@@ -0,0 +1,241 @@
+import { test, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { AddressInfo } from 'node:net';
+
+// The tracker store resolves its files under HOME on import, so point HOME away first
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'openanime-test-'));
+process.env.HOME = home;
+const dataDir = path.join(home, '.openanime-cli');
+fs.mkdirSync(dataDir, { recursive: true });
+fs.writeFileSync(path.join(dataDir, 'config.json'), JSON.stringify({ malClientId: 'client', enableTrackerSync: true }));
+
+const { getTracker, flushTrackerQueue, syncEpisodeProgress } = await import('../src/services/trackers.js');
+const {
+  queueTrackerUpdate, getTrackerQueue, saveTrackerQueue, getTrackerAccounts, saveTrackerAccount
+} = await import('../src/utils/trackerStore.js');
+type TrackerAccount = import('../src/utils/trackerStore.js').TrackerAccount;
+
+interface StubRequest {
+  method: string;
+  path: string;
+  authorization?: string;
+  body: string;
+}
+
+// Progress on the stub's lists by MAL id; ids listed in failingIds answer 404
+let malList: Record<number, number> = {};
+let anilistProgress: Record<number, number> = {};
+let failingIds = new Set<number>();
+let requests: StubRequest[] = [];
+let usedRefreshTokens = new Set<string>(); // MAL replaces the refresh token on every refresh
+let server: http.Server;
+
+const json = (res: http.ServerResponse, status: number, data: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+};
+
+function handleMal(pathname: string, method: string, body: string, res: http.ServerResponse): void {
+  const match = pathname.match(/^\/mal\/anime\/(\d+)(\/my_list_status)?$/);
+  const malId = Number(match?.[1]);
+  if (!match || failingIds.has(malId)) return json(res, 404, { error: 'not_found' });
+
+  if (method === 'PATCH') {
+    malList[malId] = Number(new URLSearchParams(body).get('num_watched_episodes'));
+    return json(res, 200, { num_episodes_watched: malList[malId] });
+  }
+  const watched = malList[malId];
+  json(res, 200, { num_episodes: 12, my_list_status: watched === undefined ? undefined : { num_episodes_watched: watched, status: 'watching' } });
+}
+
+function handleAniList(body: string, res: http.ServerResponse): void {
+  const { query, variables } = JSON.parse(body);
+  if (query.startsWith('mutation')) {
+    anilistProgress[variables.mediaId - 1000] = variables.progress;
+    return json(res, 200, { data: { SaveMediaListEntry: { id: 1 } } });
+  }
+  const progress = anilistProgress[variables.idMal];
+  json(res, 200, {
+    data: {
+      Media: {
+        id: variables.idMal + 1000,
+        episodes: 12,
+        mediaListEntry: progress === undefined ? null : { progress, status: 'CURRENT' }
+      }
+    }
+  });
+}
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+      const method = req.method || 'GET';
+      requests.push({ method, path: pathname, authorization: req.headers.authorization, body });
+
+      if (pathname === '/oauth/token') {
+        const form = new URLSearchParams(body);
+        const refreshToken = form.get('refresh_token') || '';
+        if (refreshToken !== 'refresh-1' || usedRefreshTokens.has(refreshToken)) return json(res, 401, { error: 'invalid_grant' });
+        usedRefreshTokens.add(refreshToken);
+        return json(res, 200, { access_token: 'access-2', refresh_token: 'refresh-2', expires_in: 3600 });
+      }
+      if (pathname.startsWith('/mal/')) return handleMal(pathname, method, body, res);
+      if (pathname === '/anilist/') return handleAniList(body, res);
+      json(res, 404, {});
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.OPENANIME_ANILIST_URL = `${baseUrl}/anilist`;
+  process.env.OPENANIME_MAL_API_URL = `${baseUrl}/mal`;
+  process.env.OPENANIME_MAL_AUTH_URL = `${baseUrl}/oauth`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+  fs.rmSync(home, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  malList = {};
+  anilistProgress = {};
+  failingIds = new Set();
+  requests = [];
+  usedRefreshTokens = new Set();
+  saveTrackerQueue([]);
+  saveTrackerAccount('mal', null);
+  saveTrackerAccount('anilist', null);
+});
+
+const account = (overrides: Partial<TrackerAccount> = {}): TrackerAccount => ({
+  accessToken: 'access-1',
+  connectedAt: new Date().toISOString(),
+  ...overrides
+});
+
+test('queueTrackerUpdate keeps the furthest episode per tracker entry', () => {
+  queueTrackerUpdate('mal', { malId: 1, episodeNumber: 3, title: 'A' }, 'offline');
+  queueTrackerUpdate('mal', { malId: 1, episodeNumber: 2, title: 'A' }, 'still offline');
+  queueTrackerUpdate('anilist', { malId: 1, episodeNumber: 1, title: 'A' }, 'offline');
+
+  let queue = getTrackerQueue();
+  assert.equal(queue.length, 2);
+  const mal = queue.find(item => item.tracker === 'mal')!;
+  assert.equal(mal.episodeNumber, 3);
+  assert.equal(mal.attempts, 2);
+  assert.equal(mal.lastError, 'still offline');
+
+  queueTrackerUpdate('mal', { malId: 1, episodeNumber: 5, title: 'A' }, 'offline');
+  queue = getTrackerQueue();
+  assert.equal(queue.find(item => item.tracker === 'mal')!.episodeNumber, 5);
+  assert.equal(queue.find(item => item.tracker === 'anilist')!.episodeNumber, 1);
+});
+
+test('flushTrackerQueue sends queued updates and keeps the ones that fail', async () => {
+  saveTrackerAccount('mal', account());
+  failingIds.add(2);
+  queueTrackerUpdate('mal', { malId: 1, episodeNumber: 4, title: 'A' }, 'offline');
+  queueTrackerUpdate('mal', { malId: 2, episodeNumber: 1, title: 'B' }, 'offline');
+  queueTrackerUpdate('anilist', { malId: 1, episodeNumber: 4, title: 'A' }, 'offline'); // not logged in
+
+  const { synced, failed } = await flushTrackerQueue();
+
+  assert.deepEqual(synced.map(item => [item.tracker, item.malId]), [['mal', 1]]);
+  assert.deepEqual(failed.map(item => [item.tracker, item.malId]), [['mal', 2], ['anilist', 1]]);
+  assert.equal(malList[1], 4);
+
+  const malFailure = failed.find(item => item.tracker === 'mal')!;
+  assert.equal(malFailure.attempts, 2);
+  assert.match(malFailure.lastError || '', /404/);
+  assert.equal(failed.find(item => item.tracker === 'anilist')!.attempts, 1);
+  assert.deepEqual(getTrackerQueue(), failed);
+});
+
+test('MAL progress never moves backwards', async () => {
+  malList[1] = 5;
+  const mal = getTracker('mal');
+
+  assert.equal(await mal.updateProgress(account(), { malId: 1, episodeNumber: 3, title: 'A' }), 'unchanged');
+  assert.equal(await mal.updateProgress(account(), { malId: 1, episodeNumber: 5, title: 'A' }), 'unchanged');
+  assert.ok(!requests.some(request => request.method === 'PATCH'));
+  assert.equal(malList[1], 5);
+
+  assert.equal(await mal.updateProgress(account(), { malId: 1, episodeNumber: 6, title: 'A' }), 'updated');
+  assert.equal(malList[1], 6);
+});
+
+test('AniList progress never moves backwards', async () => {
+  anilistProgress[1] = 5;
+  const anilist = getTracker('anilist');
+
+  assert.equal(await anilist.updateProgress(account(), { malId: 1, episodeNumber: 4, title: 'A' }), 'unchanged');
+  assert.equal(anilistProgress[1], 5);
+
+  assert.equal(await anilist.updateProgress(account(), { malId: 1, episodeNumber: 6, title: 'A' }), 'updated');
+  assert.equal(anilistProgress[1], 6);
+});
+
+test('MAL tokens close to expiry are refreshed and stored before the update', async () => {
+  const expiring = account({ refreshToken: 'refresh-1', expiresAt: new Date(Date.now() + 30000).toISOString(), username: 'me' });
+  saveTrackerAccount('mal', expiring);
+
+  assert.equal(await getTracker('mal').updateProgress(expiring, { malId: 1, episodeNumber: 1, title: 'A' }), 'updated');
+
+  assert.equal(requests[0].path, '/oauth/token');
+  const form = new URLSearchParams(requests[0].body);
+  assert.equal(form.get('grant_type'), 'refresh_token');
+  assert.equal(form.get('client_id'), 'client');
+  assert.ok(requests.slice(1).every(request => request.authorization === 'Bearer access-2'));
+
+  const stored = getTrackerAccounts().mal!;
+  assert.equal(stored.accessToken, 'access-2');
+  assert.equal(stored.refreshToken, 'refresh-2');
+  assert.equal(stored.username, 'me');
+  assert.ok(Date.parse(stored.expiresAt!) > Date.now() + 3000000);
+});
+
+test('MAL tokens are not refreshed while they are still valid', async () => {
+  const valid = account({ refreshToken: 'refresh-1', expiresAt: new Date(Date.now() + 3600000).toISOString() });
+
+  await getTracker('mal').updateProgress(valid, { malId: 1, episodeNumber: 1, title: 'A' });
+
+  assert.ok(!requests.some(request => request.path === '/oauth/token'));
+  assert.ok(requests.every(request => request.authorization === 'Bearer access-1'));
+});
+
+const expiringAccount = () =>
+  account({ refreshToken: 'refresh-1', expiresAt: new Date(Date.now() + 30000).toISOString() });
+
+test('flushTrackerQueue refreshes a shared MAL token once for all queued updates', async () => {
+  saveTrackerAccount('mal', expiringAccount());
+  queueTrackerUpdate('mal', { malId: 1, episodeNumber: 2, title: 'A' }, 'offline');
+  queueTrackerUpdate('mal', { malId: 2, episodeNumber: 7, title: 'B' }, 'offline');
+
+  const { synced, failed } = await flushTrackerQueue();
+
+  assert.equal(synced.length, 2);
+  assert.deepEqual(failed, []);
+  assert.deepEqual(malList, { 1: 2, 2: 7 });
+  assert.equal(requests.filter(request => request.path === '/oauth/token').length, 1);
+  assert.equal(getTrackerAccounts().mal!.refreshToken, 'refresh-2');
+});
+
+test('syncEpisodeProgress uses the token refreshed while flushing the queue', async () => {
+  saveTrackerAccount('mal', expiringAccount());
+  queueTrackerUpdate('mal', { malId: 1, episodeNumber: 2, title: 'A' }, 'offline');
+
+  await syncEpisodeProgress({ malId: 2, episodeNumber: 3, title: 'B' });
+
+  assert.deepEqual(malList, { 1: 2, 2: 3 });
+  assert.deepEqual(getTrackerQueue(), []);
+  assert.equal(requests.filter(request => request.path === '/oauth/token').length, 1);
+});
@@ -0,0 +1,60 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// updates.ts loads the API and config modules, which resolve the app data dir on import
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'openanime-test-'));
+process.env.HOME = home;
+const { getEpisodeCounts, findNewEpisodes, getCheckedEpisodeCounts } = await import('../src/services/updates.js');
+type AnimeDetail = import('../src/services/api.js').AnimeDetail;
+
+after(() => fs.rmSync(home, { recursive: true, force: true }));
+
+const anime = (seasons: Array<[number, number]>) => ({
+  id: '1',
+  slug: 'some-anime',
+  seasons: seasons.map(([season_number, episode_count]) => ({ season_number, episode_count }))
+}) as unknown as AnimeDetail;
+
+test('getEpisodeCounts maps season numbers to episode counts', () => {
+  assert.deepEqual(getEpisodeCounts(anime([[1, 12], [2, 3]])), { 1: 12, 2: 3 });
+});
+
+test('findNewEpisodes lists episodes beyond the recorded counts in season order', () => {
+  const detail = anime([[2, 4], [1, 13]]);
+
+  assert.deepEqual(findNewEpisodes({ 1: 12, 2: 2 }, detail), [
+    { seasonNumber: 1, episodeNumber: 13 },
+    { seasonNumber: 2, episodeNumber: 3 },
+    { seasonNumber: 2, episodeNumber: 4 }
+  ]);
+});
+
+test('findNewEpisodes treats seasons that were not recorded as new from episode 1', () => {
+  assert.deepEqual(findNewEpisodes({ 1: 12 }, anime([[1, 12], [2, 2]])), [
+    { seasonNumber: 2, episodeNumber: 1 },
+    { seasonNumber: 2, episodeNumber: 2 }
+  ]);
+});
+
+test('findNewEpisodes finds nothing when counts are unchanged or went down', () => {
+  assert.deepEqual(findNewEpisodes({ 1: 12 }, anime([[1, 12]])), []);
+  assert.deepEqual(findNewEpisodes({ 1: 12 }, anime([[1, 10]])), []);
+  assert.deepEqual(findNewEpisodes({ 1: 12 }, anime([])), []);
+});
+
+test('getCheckedEpisodeCounts records the current counts when nothing failed', () => {
+  assert.deepEqual(getCheckedEpisodeCounts(anime([[1, 13], [2, 4]])), { 1: 13, 2: 4 });
+});
+
+test('getCheckedEpisodeCounts stops each season before its first failed episode', () => {
+  const counts = getCheckedEpisodeCounts(anime([[1, 13], [2, 4]]), [
+    { seasonNumber: 2, episodeNumber: 4 },
+    { seasonNumber: 2, episodeNumber: 2 }
+  ]);
+
+  assert.deepEqual(counts, { 1: 13, 2: 1 });
+  assert.deepEqual(findNewEpisodes(counts, anime([[1, 13], [2, 4]])).map(episode => episode.episodeNumber), [2, 3, 4]);
+});
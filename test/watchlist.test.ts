@@ -0,0 +1,138 @@
+import { test, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// The watchlist and history files are resolved under HOME on import, so point HOME away first
+const home = fs.mkdtempSync(path.join(os.tmpdir(), 'openanime-test-'));
+process.env.HOME = home;
+const dataDir = path.join(home, '.openanime-cli');
+const {
+  parseWatchlistStatus, parseWatchlistScore, suggestWatchlistStatus, getWatchlist, getWatchlistEntry,
+  updateWatchlistEntry, removeWatchlistEntry, sortWatchlist
+} = await import('../src/utils/watchlist.js');
+const { saveWatchHistory } = await import('../src/utils/historyUtils.js');
+type WatchlistEntry = import('../src/utils/watchlist.js').WatchlistEntry;
+
+after(() => fs.rmSync(home, { recursive: true, force: true }));
+
+beforeEach(() => {
+  fs.rmSync(path.join(dataDir, 'watchlist.json'), { force: true });
+  fs.rmSync(path.join(dataDir, 'watch-history.json'), { force: true });
+});
+
+const anime = { slug: 'some-anime', animeId: '42', title: 'Some Anime', episodeCount: 2 };
+
+// Watch an episode; by default a second from now, so it counts as after any status change
+function watch(episodeNumber: number, progress: number, watchedAt = new Date(Date.now() + 1000)): void {
+  saveWatchHistory({
+    animeId: anime.animeId,
+    animeTitle: anime.title,
+    animeSlug: anime.slug,
+    seasonNumber: 1,
+    episodeNumber,
+    episodeTitle: `Episode ${episodeNumber}`,
+    fansubName: 'Subs',
+    watchedAt,
+    progress,
+    timePos: progress * 14,
+    duration: 1400
+  }, true);
+}
+
+test('parseWatchlistStatus accepts spacing and case variants', () => {
+  assert.equal(parseWatchlistStatus('On Hold'), 'on-hold');
+  assert.equal(parseWatchlistStatus('ON_HOLD'), 'on-hold');
+  assert.equal(parseWatchlistStatus(' dropped '), 'dropped');
+  assert.throws(() => parseWatchlistStatus('paused'), /Expected one of/);
+});
+
+test('parseWatchlistScore accepts 1 to 10 and clears with 0', () => {
+  assert.equal(parseWatchlistScore('7'), 7);
+  assert.equal(parseWatchlistScore(0), null);
+  for (const value of ['11', '-1', '7.5', 'great']) {
+    assert.throws(() => parseWatchlistScore(value), /whole number/);
+  }
+});
+
+test('new entries get their status from the watch history, or planning', () => {
+  assert.equal(suggestWatchlistStatus(anime.animeId, anime.episodeCount), 'planning');
+  assert.equal(updateWatchlistEntry(anime, {}).status, 'planning');
+  removeWatchlistEntry(anime.slug);
+
+  watch(1, 40);
+  assert.equal(suggestWatchlistStatus(anime.animeId, anime.episodeCount), 'watching');
+
+  watch(1, 100);
+  watch(2, 95);
+  assert.equal(updateWatchlistEntry(anime, {}).status, 'completed');
+});
+
+test('watching after the status was set moves planning to watching, then to completed', () => {
+  updateWatchlistEntry(anime, { status: 'planning' });
+
+  watch(1, 50);
+  assert.equal(getWatchlistEntry(anime.slug)?.status, 'watching');
+
+  watch(1, 100, new Date(Date.now() + 2000));
+  watch(2, 100, new Date(Date.now() + 2000));
+  assert.equal(getWatchlistEntry(anime.slug)?.status, 'completed');
+});
+
+test('episodes watched before the status was set do not change it', () => {
+  watch(1, 100, new Date(Date.now() - 60000));
+  updateWatchlistEntry(anime, { status: 'dropped' });
+
+  assert.equal(getWatchlistEntry(anime.slug)?.status, 'dropped');
+});
+
+test('completed entries stay completed while rewatching', () => {
+  updateWatchlistEntry(anime, { status: 'completed' });
+
+  watch(1, 30);
+  assert.equal(getWatchlistEntry(anime.slug)?.status, 'completed');
+});
+
+test('updates keep unchanged fields, and null clears the score and notes', () => {
+  const added = updateWatchlistEntry(anime, { status: 'on-hold', score: 8, notes: '  rewatch the finale  ' });
+  assert.equal(added.notes, 'rewatch the finale');
+
+  const updated = updateWatchlistEntry({ ...anime, episodeCount: undefined }, { score: 9 });
+  assert.equal(updated.status, 'on-hold');
+  assert.equal(updated.notes, 'rewatch the finale');
+  assert.equal(updated.episodeCount, 2);
+  assert.equal(updated.addedAt, added.addedAt);
+  assert.equal(updated.statusChangedAt, added.statusChangedAt);
+
+  const cleared = updateWatchlistEntry(anime, { score: null, notes: null });
+  assert.equal(cleared.score, undefined);
+  assert.equal(cleared.notes, undefined);
+  assert.equal(getWatchlist().length, 1);
+});
+
+test('removeWatchlistEntry reports whether the anime was on the list', () => {
+  updateWatchlistEntry(anime, {});
+  assert.equal(removeWatchlistEntry(anime.slug), true);
+  assert.equal(removeWatchlistEntry(anime.slug), false);
+  assert.deepEqual(getWatchlist(), []);
+});
+
+test('sortWatchlist orders by status, score or date and breaks ties by title', () => {
+  const entry = (title: string, status: WatchlistEntry['status'], score: number | undefined, addedAt: string): WatchlistEntry => ({
+    slug: title, animeId: title, title, status, score, addedAt, updatedAt: addedAt, statusChangedAt: addedAt
+  });
+  const entries = [
+    entry('C', 'planning', 7, '2024-01-03'),
+    entry('A', 'completed', undefined, '2024-01-01'),
+    entry('B', 'planning', 9, '2024-01-02'),
+    entry('D', 'watching', 7, '2024-01-04')
+  ];
+  const titles = (sorted: WatchlistEntry[]) => sorted.map(item => item.title).join('');
+
+  assert.equal(titles(sortWatchlist(entries, 'status')), 'DBCA');
+  assert.equal(titles(sortWatchlist(entries, 'score')), 'BCDA');
+  assert.equal(titles(sortWatchlist(entries, 'added')), 'DCBA');
+  assert.equal(titles(sortWatchlist(entries, 'title')), 'ABCD');
+  assert.equal(titles(entries), 'CABD');
+});